@@ -0,0 +1,130 @@
+import type { DetectedShape, DetectionResult, Point } from "./detection-core.js";
+import { polygonArea } from "./contour-utils.js";
+import type { GroundTruthData, GroundTruthImage, GroundTruthShape } from "./evaluation-utils.js";
+import { polygonCentroid } from "./geometry-utils.js";
+
+/** Labels an annotation can carry; the ground-truth schema adds "square" to the detector's */
+export const ANNOTATION_TYPES = [
+  "circle",
+  "ellipse",
+  "triangle",
+  "rectangle",
+  "square",
+  "pentagon",
+  "hexagon",
+  "octagon",
+  "star",
+  "polygon",
+] as const;
+
+export type AnnotationType = (typeof ANNOTATION_TYPES)[number];
+
+/**
+ * How an annotation is drawn, in canvas coordinates (pixel edges, so a box
+ * covering pixels 10..19 is x 10, width 10).
+ */
+export type AnnotationGeometry =
+  | { kind: "box"; x: number; y: number; width: number; height: number }
+  | { kind: "circle"; center: Point; radius: number }
+  | { kind: "polygon"; vertices: Point[] };
+
+export interface Annotation {
+  type: AnnotationType;
+  geometry: AnnotationGeometry;
+  notes?: string;
+}
+
+// Rectangles turned less than this many degrees are annotated as plain boxes
+const AXIS_ALIGNED_TOLERANCE = 2;
+
+/**
+ * Starting annotation for a detection. The detector reports pixel indices,
+ * so boxes grow by one pixel and points move to pixel centers.
+ */
+export function annotationFromDetection(shape: DetectedShape): Annotation {
+  const { x, y, width, height } = shape.boundingBox;
+  const center = { x: shape.center.x + 0.5, y: shape.center.y + 0.5 };
+  const type: AnnotationType = shape.isSquare ? "square" : shape.type;
+
+  if (shape.type === "circle") {
+    return { type, geometry: { kind: "circle", center, radius: (width + height + 2) / 4 } };
+  }
+  const axisAligned = shape.type === "rectangle" && Math.abs(shape.rotation) < AXIS_ALIGNED_TOLERANCE;
+  if (shape.type === "ellipse" || axisAligned || shape.vertices.length < 3) {
+    return { type, geometry: { kind: "box", x, y, width: width + 1, height: height + 1 } };
+  }
+  const vertices = shape.vertices.map((p) => ({ x: p.x + 0.5, y: p.y + 0.5 }));
+  return { type, geometry: { kind: "polygon", vertices } };
+}
+
+export function annotationsFromDetection(result: DetectionResult): Annotation[] {
+  return result.shapes.map(annotationFromDetection);
+}
+
+export function annotationBounds(geometry: AnnotationGeometry): { x: number; y: number; width: number; height: number } {
+  switch (geometry.kind) {
+    case "box":
+      return { x: geometry.x, y: geometry.y, width: geometry.width, height: geometry.height };
+    case "circle": {
+      const { center, radius } = geometry;
+      return { x: center.x - radius, y: center.y - radius, width: 2 * radius, height: 2 * radius };
+    }
+    case "polygon": {
+      const xs = geometry.vertices.map((p) => p.x), ys = geometry.vertices.map((p) => p.y);
+      const minX = Math.min(...xs), minY = Math.min(...ys);
+      return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+    }
+  }
+}
+
+/**
+ * Entry in the `ground_truth.json` shape schema: center, bounding_box and
+ * area always, plus radius for circles and vertices for polygons. A box
+ * annotated as an ellipse gets the area of the ellipse inscribed in it.
+ */
+export function toGroundTruthShape(annotation: Annotation): GroundTruthShape {
+  const { type, geometry, notes } = annotation;
+  const bounds = annotationBounds(geometry);
+  const shape: GroundTruthShape = { type, center: { x: 0, y: 0 }, bounding_box: roundBox(bounds), area: 0 };
+
+  if (geometry.kind === "circle") {
+    shape.center = roundPoint(geometry.center);
+    shape.radius = round(geometry.radius);
+    shape.area = Math.PI * geometry.radius * geometry.radius;
+  } else if (geometry.kind === "polygon") {
+    shape.center = roundPoint(polygonCentroid(geometry.vertices));
+    shape.vertices = geometry.vertices.map(roundPoint);
+    shape.area = Math.abs(polygonArea(geometry.vertices));
+    if (type === "polygon") shape.sides = geometry.vertices.length;
+  } else {
+    shape.center = roundPoint({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+    shape.area = bounds.width * bounds.height * (type === "ellipse" || type === "circle" ? Math.PI / 4 : 1);
+  }
+  shape.area = round(shape.area);
+  if (notes) shape.notes = notes;
+  return shape;
+}
+
+export function toGroundTruthImage(annotations: Annotation[], width: number, height: number): GroundTruthImage {
+  return {
+    image_dimensions: { width, height },
+    shapes: annotations.map(toGroundTruthShape),
+  };
+}
+
+/** Add or replace image entries; metadata and every other image are kept */
+export function mergeGroundTruth(data: GroundTruthData, entries: Record<string, GroundTruthImage>): GroundTruthData {
+  return { ...data, images: { ...data.images, ...entries } };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundPoint(point: Point): Point {
+  return { x: round(point.x), y: round(point.y) };
+}
+
+function roundBox(box: { x: number; y: number; width: number; height: number }) {
+  return { x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height) };
+}
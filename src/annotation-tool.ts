@@ -0,0 +1,460 @@
+import type { DetectionResult, Point } from "./detection-core.js";
+import {
+  ANNOTATION_TYPES,
+  annotationBounds,
+  annotationsFromDetection,
+  mergeGroundTruth,
+  toGroundTruthImage,
+} from "./annotation-model.js";
+import type { Annotation, AnnotationGeometry, AnnotationType } from "./annotation-model.js";
+import type { GroundTruthData } from "./evaluation-utils.js";
+import { SHAPE_COLORS } from "./overlay-renderer.js";
+import { downloadFiles } from "./ui-utils.js";
+
+export type AnnotationMode = "select" | "box" | "circle" | "polygon";
+
+type DragState =
+  | { kind: "create"; start: Point }
+  | { kind: "move"; last: Point }
+  | { kind: "handle"; handle: number };
+
+// Screen pixels within which a click grabs a handle or closes a polygon
+const GRAB_DISTANCE = 8;
+
+/**
+ * Ground-truth editor on the image canvas. Shapes are drawn as boxes,
+ * circles or polygons, selected to move them or drag their handles, and
+ * given a type from the toolbar. Saving produces an `images[...]` entry of
+ * `ground_truth.json`, on its own or merged into the current file.
+ *
+ * The panel holds the toolbar: `[data-mode]` buttons, a `select.annotation-type`,
+ * `[data-action]` buttons and a `ul.annotation-list`.
+ */
+export class AnnotationTool {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private panel: HTMLElement;
+  private typeSelect: HTMLSelectElement;
+  private list: HTMLUListElement;
+  private image: HTMLCanvasElement | null = null;
+  private fileName = "image.png";
+  private result: DetectionResult | null = null;
+  private annotations: Annotation[] = [];
+  private selected: number | null = null;
+  private mode: AnnotationMode = "select";
+  private drag: DragState | null = null;
+  /** Vertices of the polygon being drawn, plus the pointer position */
+  private draft: Point[] = [];
+  private pointer: Point | null = null;
+
+  constructor(canvas: HTMLCanvasElement, panel: HTMLElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext("2d")!;
+    this.panel = panel;
+    this.typeSelect = panel.querySelector("select.annotation-type")!;
+    this.list = panel.querySelector("ul.annotation-list")!;
+
+    this.typeSelect.innerHTML = ANNOTATION_TYPES.map((type) => `<option value="${type}">${type}</option>`).join("");
+    this.typeSelect.value = "rectangle";
+    this.setupEventListeners();
+  }
+
+  isActive(): boolean {
+    return this.image !== null;
+  }
+
+  /**
+   * Start annotating `image` (a snapshot of the canvas). Annotations are
+   * pre-filled from `result` when given.
+   */
+  start(image: HTMLCanvasElement, fileName: string, result: DetectionResult | null): void {
+    this.image = image;
+    this.fileName = fileName;
+    this.result = result;
+    this.annotations = result ? annotationsFromDetection(result) : [];
+    this.selected = null;
+    this.draft = [];
+    this.panel.hidden = false;
+    // Let pointer drags draw instead of scrolling on touch screens
+    this.canvas.style.touchAction = "none";
+    this.setMode("select");
+    this.refresh();
+  }
+
+  stop(): void {
+    this.image = null;
+    this.drag = null;
+    this.draft = [];
+    this.panel.hidden = true;
+    this.canvas.style.touchAction = "";
+    this.canvas.style.cursor = "";
+  }
+
+  getAnnotations(): Annotation[] {
+    return this.annotations;
+  }
+
+  private setupEventListeners(): void {
+    this.panel.addEventListener("click", (event) => {
+      const target = (event.target as HTMLElement).closest<HTMLElement>("[data-mode], [data-action], [data-index]");
+      if (!target) return;
+      if (target.dataset.mode) this.setMode(target.dataset.mode as AnnotationMode);
+      else if (target.dataset.action) this.runAction(target.dataset.action);
+      else this.select(Number(target.dataset.index));
+    });
+
+    this.typeSelect.addEventListener("change", () => {
+      if (this.selected === null) return;
+      this.annotations[this.selected].type = this.typeSelect.value as AnnotationType;
+      this.refresh();
+    });
+
+    this.canvas.addEventListener("pointerdown", (event) => this.onPointerDown(event));
+    this.canvas.addEventListener("pointermove", (event) => this.onPointerMove(event));
+    this.canvas.addEventListener("pointerup", () => {
+      // A click without a drag creates nothing
+      if (this.drag?.kind === "create" && this.selected !== null) {
+        const { width, height } = annotationBounds(this.annotations[this.selected].geometry);
+        if (Math.max(width, height) < GRAB_DISTANCE * this.scale() / 2) this.deleteSelected();
+      }
+      this.drag = null;
+    });
+    this.canvas.addEventListener("dblclick", () => {
+      if (this.isActive() && this.mode === "polygon") this.finishPolygon();
+    });
+
+    document.addEventListener("keydown", (event) => {
+      if (!this.isActive() || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) {
+        return;
+      }
+      if (event.key === "Escape") {
+        this.draft = [];
+        this.select(null);
+      } else if (event.key === "Enter" && this.mode === "polygon") {
+        this.finishPolygon();
+      } else if (event.key === "Delete" || event.key === "Backspace") {
+        event.preventDefault();
+        this.deleteSelected();
+      }
+    });
+  }
+
+  private runAction(action: string): void {
+    switch (action) {
+      case "prefill":
+        this.annotations = this.result ? annotationsFromDetection(this.result) : [];
+        this.select(null);
+        break;
+      case "delete":
+        this.deleteSelected();
+        break;
+      case "clear":
+        this.annotations = [];
+        this.select(null);
+        break;
+      case "download":
+        this.downloadEntry();
+        break;
+      case "download-merged":
+        this.downloadMerged().catch((error) => alert(`Could not merge ground truth: ${error}`));
+        break;
+    }
+  }
+
+  private setMode(mode: AnnotationMode): void {
+    this.mode = mode;
+    this.draft = [];
+    this.panel.querySelectorAll<HTMLElement>("[data-mode]").forEach((button) => {
+      button.classList.toggle("active", button.dataset.mode === mode);
+    });
+    this.canvas.style.cursor = mode === "select" ? "default" : "crosshair";
+    this.render();
+  }
+
+  private select(index: number | null): void {
+    this.selected = index;
+    if (index !== null) this.typeSelect.value = this.annotations[index].type;
+    this.refresh();
+  }
+
+  private deleteSelected(): void {
+    if (this.selected === null) return;
+    this.annotations.splice(this.selected, 1);
+    this.select(null);
+  }
+
+  private add(geometry: AnnotationGeometry): void {
+    this.annotations.push({ type: this.typeSelect.value as AnnotationType, geometry });
+    this.select(this.annotations.length - 1);
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    if (!this.isActive() || event.button !== 0) return;
+    const point = this.toImage(event);
+    const grab = GRAB_DISTANCE * this.scale();
+
+    if (this.mode === "polygon") {
+      const first = this.draft[0];
+      if (this.draft.length >= 3 && distance(point, first) <= grab) this.finishPolygon();
+      else this.draft.push(point);
+      this.render();
+      return;
+    }
+
+    this.canvas.setPointerCapture(event.pointerId);
+    if (this.mode === "box" || this.mode === "circle") {
+      this.drag = { kind: "create", start: point };
+      this.add(
+        this.mode === "box"
+          ? { kind: "box", x: point.x, y: point.y, width: 0, height: 0 }
+          : { kind: "circle", center: point, radius: 0 }
+      );
+      return;
+    }
+
+    const handle = this.selected !== null ? this.handleAt(this.annotations[this.selected].geometry, point, grab) : -1;
+    if (handle >= 0) {
+      this.drag = { kind: "handle", handle };
+      return;
+    }
+    const hit = this.annotationAt(point);
+    this.select(hit);
+    if (hit !== null) this.drag = { kind: "move", last: point };
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    if (!this.isActive()) return;
+    const point = this.toImage(event);
+    this.pointer = point;
+    if (!this.drag || this.selected === null) {
+      if (this.draft.length) this.render();
+      return;
+    }
+
+    const geometry = this.annotations[this.selected].geometry;
+    if (this.drag.kind === "create") {
+      const { start } = this.drag;
+      if (geometry.kind === "box") {
+        Object.assign(geometry, spanBox(start, point));
+      } else if (geometry.kind === "circle") {
+        geometry.radius = distance(start, point);
+      }
+    } else if (this.drag.kind === "move") {
+      translate(geometry, point.x - this.drag.last.x, point.y - this.drag.last.y);
+      this.drag.last = point;
+    } else {
+      moveHandle(geometry, this.drag.handle, point);
+    }
+    this.refresh();
+  }
+
+  private finishPolygon(): void {
+    // A double-click also adds its two clicks as vertices; drop the repeats
+    const grab = GRAB_DISTANCE * this.scale();
+    const vertices = this.draft.filter((p, i) => i === 0 || distance(p, this.draft[i - 1]) > grab / 2);
+    this.draft = [];
+    if (vertices.length >= 3) this.add({ kind: "polygon", vertices });
+    else this.render();
+  }
+
+  // Topmost annotation under the point
+  private annotationAt(point: Point): number | null {
+    for (let i = this.annotations.length - 1; i >= 0; i--) {
+      if (contains(this.annotations[i].geometry, point)) return i;
+    }
+    return null;
+  }
+
+  private handleAt(geometry: AnnotationGeometry, point: Point, grab: number): number {
+    return handlesOf(geometry).findIndex((handle) => distance(handle, point) <= grab);
+  }
+
+  // Image pixels per screen pixel, as the canvas is scaled to fit its container
+  private scale(): number {
+    const rect = this.canvas.getBoundingClientRect();
+    return rect.width > 0 ? this.canvas.width / rect.width : 1;
+  }
+
+  private toImage(event: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const scale = this.scale();
+    return { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale };
+  }
+
+  private refresh(): void {
+    this.render();
+    this.list.innerHTML = this.annotations
+      .map((annotation, index) => {
+        const { x, y, width, height } = annotationBounds(annotation.geometry);
+        return `<li data-index="${index}" class="${index === this.selected ? "selected" : ""}">
+          #${index} ${annotation.type} (${annotation.geometry.kind}) at ${x.toFixed(0)}, ${y.toFixed(0)},
+          ${width.toFixed(0)}×${height.toFixed(0)}
+        </li>`;
+      })
+      .join("");
+  }
+
+  private render(): void {
+    const { ctx, canvas } = this;
+    if (!this.image) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(this.image, 0, 0);
+    const unit = Math.max(1, Math.round(Math.max(canvas.width, canvas.height) / 400));
+
+    this.annotations.forEach((annotation, index) => {
+      const selected = index === this.selected;
+      ctx.save();
+      ctx.strokeStyle = SHAPE_COLORS[annotation.type === "square" ? "rectangle" : annotation.type];
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.lineWidth = selected ? unit * 2 : unit;
+      tracePath(ctx, annotation);
+      ctx.stroke();
+      ctx.globalAlpha = selected ? 0.25 : 0.1;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+
+      const { x, y } = annotationBounds(annotation.geometry);
+      ctx.font = `600 ${6 * unit + 6}px system-ui, sans-serif`;
+      ctx.textBaseline = "bottom";
+      ctx.fillText(`#${index} ${annotation.type}`, x, Math.max(6 * unit + 6, y - unit));
+
+      if (selected) {
+        ctx.fillStyle = "#fff";
+        const size = unit * 5;
+        for (const handle of handlesOf(annotation.geometry)) {
+          ctx.fillRect(handle.x - size / 2, handle.y - size / 2, size, size);
+          ctx.strokeRect(handle.x - size / 2, handle.y - size / 2, size, size);
+        }
+      }
+      ctx.restore();
+    });
+
+    if (this.draft.length) {
+      ctx.save();
+      ctx.strokeStyle = "#fff";
+      ctx.lineWidth = unit;
+      ctx.setLineDash([unit * 4, unit * 3]);
+      ctx.beginPath();
+      this.draft.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+      if (this.pointer) ctx.lineTo(this.pointer.x, this.pointer.y);
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+
+  private downloadEntry(): void {
+    const entry = { [this.fileName]: this.groundTruthEntry() };
+    downloadFiles([{
+      fileName: `${this.fileName.replace(/\.[^.]*$/, "")}.ground_truth.json`,
+      mimeType: "application/json",
+      content: JSON.stringify(entry, null, 2),
+    }]);
+  }
+
+  // The served ground truth with this image's entry added or replaced
+  private async downloadMerged(): Promise<void> {
+    const response = await fetch("/ground_truth.json");
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data: GroundTruthData = await response.json();
+    const merged = mergeGroundTruth(data, { [this.fileName]: this.groundTruthEntry() });
+    downloadFiles([{ fileName: "ground_truth.json", mimeType: "application/json", content: JSON.stringify(merged, null, 2) }]);
+  }
+
+  private groundTruthEntry() {
+    return toGroundTruthImage(this.annotations, this.canvas.width, this.canvas.height);
+  }
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function spanBox(a: Point, b: Point) {
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+}
+
+// Box corners clockwise from top-left, a circle's rightmost point, or polygon vertices
+function handlesOf(geometry: AnnotationGeometry): Point[] {
+  switch (geometry.kind) {
+    case "box": {
+      const { x, y, width, height } = geometry;
+      return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+    }
+    case "circle":
+      return [{ x: geometry.center.x + geometry.radius, y: geometry.center.y }];
+    case "polygon":
+      return geometry.vertices;
+  }
+}
+
+function moveHandle(geometry: AnnotationGeometry, handle: number, point: Point): void {
+  switch (geometry.kind) {
+    case "box": {
+      // Drag the corner; the opposite one stays put
+      const opposite = handlesOf(geometry)[(handle + 2) % 4];
+      Object.assign(geometry, spanBox(opposite, point));
+      break;
+    }
+    case "circle":
+      geometry.radius = distance(geometry.center, point);
+      break;
+    case "polygon":
+      geometry.vertices[handle] = point;
+      break;
+  }
+}
+
+function translate(geometry: AnnotationGeometry, dx: number, dy: number): void {
+  switch (geometry.kind) {
+    case "box":
+      geometry.x += dx;
+      geometry.y += dy;
+      break;
+    case "circle":
+      geometry.center = { x: geometry.center.x + dx, y: geometry.center.y + dy };
+      break;
+    case "polygon":
+      geometry.vertices = geometry.vertices.map((p) => ({ x: p.x + dx, y: p.y + dy }));
+      break;
+  }
+}
+
+function contains(geometry: AnnotationGeometry, point: Point): boolean {
+  switch (geometry.kind) {
+    case "box":
+      return (
+        point.x >= geometry.x && point.x <= geometry.x + geometry.width &&
+        point.y >= geometry.y && point.y <= geometry.y + geometry.height
+      );
+    case "circle":
+      return distance(point, geometry.center) <= geometry.radius;
+    case "polygon": {
+      // Even-odd rule
+      let inside = false;
+      const { vertices } = geometry;
+      for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+        const a = vertices[i], b = vertices[j];
+        if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    }
+  }
+}
+
+// Ellipses are annotated by their bounding box but drawn as ellipses
+function tracePath(ctx: CanvasRenderingContext2D, { type, geometry }: Annotation): void {
+  ctx.beginPath();
+  if (geometry.kind === "box" && type === "ellipse") {
+    const { x, y, width, height } = geometry;
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, 2 * Math.PI);
+  } else if (geometry.kind === "box") {
+    ctx.rect(geometry.x, geometry.y, geometry.width, geometry.height);
+  } else if (geometry.kind === "circle") {
+    ctx.arc(geometry.center.x, geometry.center.y, geometry.radius, 0, 2 * Math.PI);
+  } else {
+    geometry.vertices.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+    ctx.closePath();
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Minimum-cost one-to-one assignment of rows to columns (the Hungarian
+ * method with row and column potentials, O(n²·m)). The matrix may be
+ * rectangular: every row of the smaller side gets a partner. Returns the
+ * column assigned to each row, or -1 for rows left over.
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+  if (rows > cols) {
+    // Solve the transpose so that rows never outnumber columns
+    const transposed = Array.from({ length: cols }, (_, c) => cost.map((row) => row[c]));
+    const rowOfCol = solveAssignment(transposed);
+    const assignment = new Array(rows).fill(-1);
+    rowOfCol.forEach((row, col) => {
+      if (row >= 0) assignment[row] = col;
+    });
+    return assignment;
+  }
+
+  // 1-based arrays; column 0 is a virtual start column
+  const u = new Float64Array(rows + 1);
+  const v = new Float64Array(cols + 1);
+  const rowOf = new Int32Array(cols + 1);
+  const way = new Int32Array(cols + 1);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOf[0] = row;
+    let col0 = 0;
+    const minSlack = new Float64Array(cols + 1).fill(Infinity);
+    const used = new Uint8Array(cols + 1);
+    // Grow an alternating path until it reaches a free column
+    do {
+      used[col0] = 1;
+      const row0 = rowOf[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let col = 1; col <= cols; col++) {
+        if (used[col]) continue;
+        const slack = cost[row0 - 1][col - 1] - u[row0] - v[col];
+        if (slack < minSlack[col]) {
+          minSlack[col] = slack;
+          way[col] = col0;
+        }
+        if (minSlack[col] < delta) {
+          delta = minSlack[col];
+          col1 = col;
+        }
+      }
+      for (let col = 0; col <= cols; col++) {
+        if (used[col]) {
+          u[rowOf[col]] += delta;
+          v[col] -= delta;
+        } else {
+          minSlack[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (rowOf[col0] !== 0);
+    // Flip the path
+    do {
+      const col1 = way[col0];
+      rowOf[col0] = rowOf[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let col = 1; col <= cols; col++) {
+    if (rowOf[col]) assignment[rowOf[col] - 1] = col - 1;
+  }
+  return assignment;
+}
@@ -0,0 +1,135 @@
+import { compareToBaseline, createBaseline, parseBaseline } from "./evaluation-baseline.js";
+import type { EvaluationBaseline } from "./evaluation-baseline.js";
+import type { OverallResults } from "./evaluation-utils.js";
+import { downloadFiles } from "./ui-utils.js";
+
+const STORAGE_KEY = "shape-detector:baselines";
+
+/**
+ * Saves evaluation runs as named baselines in localStorage and compares the
+ * shown run against one of them. Baselines download as the same JSON the
+ * CLI reads with `--baseline`, and CLI-saved ones can be imported.
+ *
+ * `render` is called after a comparison is attached to (or removed from) the results.
+ */
+export class BaselinePanel {
+  private results: OverallResults;
+  private render: () => void;
+  private nameInput: HTMLInputElement;
+  private select: HTMLSelectElement;
+  private fileInput: HTMLInputElement;
+
+  constructor(container: HTMLElement, results: OverallResults, render: () => void) {
+    this.results = results;
+    this.render = render;
+
+    container.classList.add("baseline-panel");
+    container.innerHTML = `
+      <input type="text" class="baseline-name" placeholder="Baseline name" />
+      <button data-action="save">Save as Baseline</button>
+      <select class="baseline-select"></select>
+      <button data-action="compare">Compare</button>
+      <button data-action="clear">Clear Comparison</button>
+      <button data-action="download">Download</button>
+      <button data-action="delete">Delete</button>
+      <label class="baseline-import">Import <input type="file" accept=".json,application/json" hidden /></label>
+    `;
+    this.nameInput = container.querySelector("input.baseline-name")!;
+    this.select = container.querySelector("select.baseline-select")!;
+    this.fileInput = container.querySelector("input[type=file]")!;
+    this.nameInput.value = `run ${new Date().toLocaleString()}`;
+
+    container.addEventListener("click", (event) => {
+      const target = (event.target as HTMLElement).closest<HTMLElement>("[data-action]");
+      if (target) this.runAction(target.dataset.action!);
+    });
+    this.fileInput.addEventListener("change", () => this.importFile());
+    this.refreshSelect();
+  }
+
+  private runAction(action: string): void {
+    const baselines = loadBaselines();
+    const selected = baselines[Number(this.select.value)];
+    switch (action) {
+      case "save": {
+        const name = this.nameInput.value.trim();
+        if (!name) {
+          alert("Enter a name for the baseline");
+          return;
+        }
+        this.store([...baselines.filter((b) => b.name !== name), createBaseline(name, this.results)], name);
+        return;
+      }
+      case "clear":
+        delete this.results.baselineComparison;
+        this.render();
+        return;
+    }
+
+    if (!selected) {
+      alert("Save or import a baseline first");
+      return;
+    }
+    switch (action) {
+      case "compare":
+        this.results.baselineComparison = compareToBaseline(selected, this.results);
+        this.render();
+        break;
+      case "download":
+        downloadFiles([{
+          fileName: `${selected.name.replace(/[^\w.-]+/g, "_")}.json`,
+          mimeType: "application/json",
+          content: JSON.stringify(selected, null, 2),
+        }]);
+        break;
+      case "delete":
+        if (confirm(`Delete baseline "${selected.name}"?`)) {
+          this.store(baselines.filter((b) => b !== selected));
+        }
+        break;
+    }
+  }
+
+  private async importFile(): Promise<void> {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = "";
+    if (!file) return;
+    try {
+      const imported = parseBaseline(await file.text());
+      this.store([...loadBaselines().filter((b) => b.name !== imported.name), imported], imported.name);
+    } catch (error) {
+      alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private store(baselines: EvaluationBaseline[], select?: string): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(baselines));
+    } catch (error) {
+      // Usually the storage quota; downloaded baselines are not limited by it
+      alert(`Could not save baselines: ${error}`);
+      return;
+    }
+    this.refreshSelect(select);
+  }
+
+  private refreshSelect(select?: string): void {
+    const baselines = loadBaselines();
+    this.select.replaceChildren(
+      ...baselines.map((baseline, i) =>
+        new Option(`${baseline.name} (${baseline.grade}, ${new Date(baseline.createdAt).toLocaleDateString()})`, String(i))
+      )
+    );
+    const index = baselines.findIndex((baseline) => baseline.name === select);
+    this.select.value = String(index >= 0 ? index : baselines.length - 1);
+  }
+}
+
+function loadBaselines(): EvaluationBaseline[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
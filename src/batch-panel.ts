@@ -0,0 +1,233 @@
+import { BatchQueue, summarizeBatch } from "./batch-queue.js";
+import type { BatchItem } from "./batch-queue.js";
+import type { LoadImageOptions } from "./image-ingestion.js";
+import { scaleDetectionResult } from "./image-scaling.js";
+import type { ShapeDetector } from "./main.js";
+import { scaleRegions } from "./regions.js";
+import type { RegionSet } from "./regions.js";
+import { EXPORT_FORMATS, exportDetections, shapeLabel } from "./result-export.js";
+import type { ExportFormat } from "./result-export.js";
+import { downloadFiles } from "./ui-utils.js";
+
+const STATUS_TEXT = {
+  queued: "Queued",
+  processing: "Processing…",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+} as const;
+
+/**
+ * Batch detection over many files: a queue with progress, a table with a
+ * row per image (click a finished one to open it) and a summary with the
+ * shape-type histogram and timing. Exports cover every finished image at once.
+ *
+ * The panel holds `[data-action]` buttons (add-files, add-folder, cancel,
+ * retry, clear), `[data-format]` export buttons, a `progress`, a
+ * `.batch-status`, a `.batch-summary`, a `table.batch-table` and the two
+ * hidden file inputs `.batch-files` and `.batch-folder`.
+ */
+export class BatchPanel {
+  private panel: HTMLElement;
+  private detector: ShapeDetector;
+  private onOpen: (file: File) => void;
+  private loadOptions: () => LoadImageOptions;
+  private regions: () => RegionSet;
+  private queue: BatchQueue<File>;
+  private progress: HTMLProgressElement;
+  private status: HTMLElement;
+  private summary: HTMLElement;
+  private table: HTMLTableElement;
+  private rows = new Map<number, HTMLTableRowElement>();
+  private scheduled = false;
+
+  /**
+   * `detector` should draw to a canvas of its own, not the one on display.
+   * `loadOptions` and `regions` (in full-image pixels) are read per image,
+   * so a size limit or region set mid-batch applies to the images still queued.
+   */
+  constructor(
+    panel: HTMLElement,
+    detector: ShapeDetector,
+    onOpen: (file: File) => void,
+    loadOptions: () => LoadImageOptions = () => ({}),
+    regions: () => RegionSet = () => ({ regions: [], exclusions: [] })
+  ) {
+    this.panel = panel;
+    this.detector = detector;
+    this.onOpen = onOpen;
+    this.loadOptions = loadOptions;
+    this.regions = regions;
+    this.progress = panel.querySelector("progress")!;
+    this.status = panel.querySelector(".batch-status")!;
+    this.summary = panel.querySelector(".batch-summary")!;
+    this.table = panel.querySelector("table.batch-table")!;
+
+    this.queue = new BatchQueue<File>(
+      async (file, signal, onProgress) => {
+        const image = await this.detector.ingestImage(file, { ...this.loadOptions(), signal });
+        signal.throwIfAborted();
+        const options = { debug: false, ...scaleRegions(this.regions(), image.scale) };
+        const result = await this.detector.detectShapes(image.imageData, options, { signal, onProgress });
+        return scaleDetectionResult(result, image.scale, image.width, image.height);
+      },
+      (item) => {
+        if (item) this.updateRow(item);
+        this.scheduleRefresh();
+      }
+    );
+    this.setupEventListeners();
+    this.refresh();
+  }
+
+  /** Queue images and start on them (if not already running) */
+  addFiles(files: File[]): void {
+    // Some systems leave the type empty, so fall back to the extension
+    const images = files.filter(
+      (file) => file.type.startsWith("image/") || /\.(png|jpe?g|gif|bmp|webp|svg)$/i.test(file.name)
+    );
+    if (images.length === 0) return;
+    const added = this.queue.add(
+      // Folder uploads keep their path, so same-named scans in different folders stay apart
+      images.map((file) => ({ name: file.webkitRelativePath || file.name, source: file }))
+    );
+    const body = this.table.tBodies[0] ?? this.table.createTBody();
+    for (const item of added) {
+      const row = body.insertRow();
+      row.dataset.id = String(item.id);
+      this.rows.set(item.id, row);
+      this.updateRow(item);
+    }
+    this.start();
+  }
+
+  private setupEventListeners(): void {
+    const filesInput = this.panel.querySelector<HTMLInputElement>("input.batch-files")!;
+    const folderInput = this.panel.querySelector<HTMLInputElement>("input.batch-folder")!;
+    for (const input of [filesInput, folderInput]) {
+      input.addEventListener("change", () => {
+        this.addFiles(Array.from(input.files ?? []));
+        input.value = "";
+      });
+    }
+
+    this.panel.addEventListener("click", (event) => {
+      const target = event.target as HTMLElement;
+      const button = target.closest<HTMLButtonElement>("button[data-action], button[data-format]");
+      if (button?.dataset.format) {
+        this.export(button.dataset.format as ExportFormat);
+        return;
+      }
+      switch (button?.dataset.action) {
+        case "add-files":
+          filesInput.click();
+          return;
+        case "add-folder":
+          folderInput.click();
+          return;
+        case "cancel":
+          this.queue.cancel();
+          return;
+        case "retry":
+          this.queue.retry();
+          this.start();
+          return;
+        case "clear":
+          this.queue.clear();
+          this.rows.clear();
+          this.table.tBodies[0]?.replaceChildren();
+          this.refresh();
+          return;
+      }
+
+      const row = target.closest<HTMLTableRowElement>("tr[data-id]");
+      const item = row && this.queue.items.find((entry) => entry.id === Number(row.dataset.id));
+      if (item?.status === "done") this.onOpen(item.source);
+    });
+  }
+
+  private start(): void {
+    this.queue.run().finally(() => this.refresh());
+    this.refresh();
+  }
+
+  private export(format: ExportFormat): void {
+    const results = this.queue.results();
+    if (!EXPORT_FORMATS.includes(format) || results.length === 0) return;
+    const files = exportDetections(results, format);
+    downloadFiles(files.map((file) => ({ ...file, fileName: `batch-${file.fileName}` })));
+  }
+
+  private updateRow(item: BatchItem<File>): void {
+    const row = this.rows.get(item.id);
+    if (!row) return;
+    const { result } = item;
+    const types = new Map<string, number>();
+    for (const shape of result?.shapes ?? []) types.set(shapeLabel(shape), (types.get(shapeLabel(shape)) ?? 0) + 1);
+
+    row.className = `batch-${item.status}`;
+    row.title = item.status === "done" ? "Open in the viewer" : item.error ?? "";
+    row.innerHTML = `
+      <td></td>
+      <td>${STATUS_TEXT[item.status]}</td>
+      <td>${result ? result.shapes.length : ""}</td>
+      <td></td>
+      <td>${result ? `${result.processingTime.toFixed(0)}ms` : ""}</td>
+    `;
+    // File names and errors are set as text, never parsed
+    row.cells[0].textContent = item.name;
+    row.cells[3].textContent = item.error ?? [...types].map(([label, count]) => `${count} ${label}`).join(", ");
+  }
+
+  // Progress arrives for every detection stage; redraw at most once a frame
+  private scheduleRefresh(): void {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    requestAnimationFrame(() => {
+      this.scheduled = false;
+      this.refresh();
+    });
+  }
+
+  private refresh(): void {
+    const progress = this.queue.progress();
+    const running = this.queue.isRunning();
+    const hasResults = progress.done > 0;
+    this.progress.hidden = progress.total === 0;
+    this.progress.value = progress.fraction;
+
+    this.status.textContent = progress.total === 0
+      ? "No images queued."
+      : `${progress.done} of ${progress.total} done${progress.failed ? `, ${progress.failed} failed` : ""}` +
+        (progress.current ? ` · ${progress.current}` : "");
+
+    this.panel.querySelectorAll<HTMLButtonElement>("button[data-format]").forEach((button) => {
+      button.disabled = !hasResults;
+    });
+    this.setDisabled("cancel", !running);
+    this.setDisabled("retry", running || !this.queue.items.some((item) => item.status === "error" || item.status === "cancelled"));
+    this.setDisabled("clear", progress.total === 0);
+
+    const summary = summarizeBatch(this.queue.items);
+    const largest = summary.typeHistogram[0]?.count ?? 0;
+    this.summary.innerHTML = summary.processed === 0 ? "" : `
+      <p>${summary.shapes} shapes in ${summary.processed} images ·
+        ${summary.totalTime.toFixed(0)}ms total, ${summary.meanTime.toFixed(0)}ms mean, ${summary.maxTime.toFixed(0)}ms max</p>
+      <table class="batch-histogram">
+        ${summary.typeHistogram
+          .map(({ label, count }) => `
+          <tr>
+            <th>${label}</th>
+            <td class="reliability-bar"><span class="accuracy" style="width: ${((count / largest) * 100).toFixed(1)}%"></span></td>
+            <td>${count}</td>
+          </tr>`)
+          .join("")}
+      </table>
+    `;
+  }
+
+  private setDisabled(action: string, disabled: boolean): void {
+    const button = this.panel.querySelector<HTMLButtonElement>(`button[data-action="${action}"]`);
+    if (button) button.disabled = disabled;
+  }
+}
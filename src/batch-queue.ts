@@ -0,0 +1,189 @@
+import type { DetectionProgress, DetectionResult } from "./detection-core.js";
+import { shapeLabel } from "./result-export.js";
+import type { ExportImage } from "./result-export.js";
+
+export type BatchStatus = "queued" | "processing" | "done" | "error" | "cancelled";
+
+export interface BatchItem<Source> {
+  id: number;
+  name: string;
+  source: Source;
+  status: BatchStatus;
+  result?: DetectionResult;
+  error?: string;
+}
+
+/**
+ * Detects one item. `onProgress` takes the detection's own progress, so
+ * the queue can report progress within the current item.
+ */
+export type BatchProcessor<Source> = (
+  source: Source,
+  signal: AbortSignal,
+  onProgress: (progress: DetectionProgress) => void
+) => Promise<DetectionResult>;
+
+export interface BatchProgress {
+  total: number;
+  done: number;
+  failed: number;
+  /** Finished share of the batch, counting the part of the current item already done */
+  fraction: number;
+  current: string | null;
+}
+
+export interface BatchSummary {
+  images: number;
+  processed: number;
+  failed: number;
+  shapes: number;
+  /** Shapes per label ("square", "polygon (7)", ...), most frequent first */
+  typeHistogram: { label: string; count: number }[];
+  totalTime: number;
+  meanTime: number;
+  maxTime: number;
+}
+
+/**
+ * Runs a processor over queued items one at a time, so only one image is
+ * decoded at once however many are queued. Items added while it runs join
+ * the end of the queue. `onChange` is called with each item whose status
+ * changes, and with no item for progress within the current one.
+ */
+export class BatchQueue<Source> {
+  private process: BatchProcessor<Source>;
+  private onChange: (item?: BatchItem<Source>) => void;
+  private entries: BatchItem<Source>[] = [];
+  private nextId = 1;
+  private running: AbortController | null = null;
+  private current: Promise<void> = Promise.resolve();
+  private currentFraction = 0;
+
+  constructor(process: BatchProcessor<Source>, onChange: (item?: BatchItem<Source>) => void) {
+    this.process = process;
+    this.onChange = onChange;
+  }
+
+  get items(): readonly BatchItem<Source>[] {
+    return this.entries;
+  }
+
+  isRunning(): boolean {
+    return this.running !== null && !this.running.signal.aborted;
+  }
+
+  add(sources: { name: string; source: Source }[]): BatchItem<Source>[] {
+    const added = sources.map(({ name, source }) => ({ id: this.nextId++, name, source, status: "queued" as const }));
+    this.entries.push(...added);
+    return added;
+  }
+
+  /**
+   * Process queued items until none are left or `cancel` is called.
+   * Resolves when the queue stops; a run started just after a cancel waits
+   * for the cancelled one to wind down first.
+   */
+  run(): Promise<void> {
+    if (this.isRunning()) return this.current;
+    const controller = new AbortController();
+    this.running = controller;
+    this.current = this.current.then(async () => {
+      let item: BatchItem<Source> | undefined;
+      while (!controller.signal.aborted && (item = this.entries.find((entry) => entry.status === "queued"))) {
+        await this.processItem(item, controller.signal);
+      }
+      if (this.running === controller) this.running = null;
+    });
+    return this.current;
+  }
+
+  /** Stop the running detection; it and every queued item become "cancelled" */
+  cancel(): void {
+    this.running?.abort();
+    for (const item of this.entries) {
+      if (item.status === "queued") this.setStatus(item, "cancelled");
+    }
+  }
+
+  /** Queue failed and cancelled items again */
+  retry(): void {
+    for (const item of this.entries) {
+      if (item.status === "error" || item.status === "cancelled") {
+        item.error = undefined;
+        this.setStatus(item, "queued");
+      }
+    }
+  }
+
+  clear(): void {
+    this.cancel();
+    this.entries = [];
+  }
+
+  progress(): BatchProgress {
+    const total = this.entries.length;
+    const done = this.entries.filter((item) => item.status === "done").length;
+    const failed = this.entries.filter((item) => item.status === "error").length;
+    const current = this.entries.find((item) => item.status === "processing");
+    return {
+      total,
+      done,
+      failed,
+      fraction: total > 0 ? (done + failed + (current ? this.currentFraction : 0)) / total : 0,
+      current: current?.name ?? null,
+    };
+  }
+
+  /** Finished results, in queue order */
+  results(): ExportImage[] {
+    return this.entries.flatMap((item) => (item.result ? [{ fileName: item.name, result: item.result }] : []));
+  }
+
+  private async processItem(item: BatchItem<Source>, signal: AbortSignal): Promise<void> {
+    this.currentFraction = 0;
+    this.setStatus(item, "processing");
+    try {
+      item.result = await this.process(item.source, signal, ({ fraction }) => {
+        this.currentFraction = fraction;
+        this.onChange();
+      });
+      this.setStatus(item, "done");
+    } catch (error) {
+      if (signal.aborted) {
+        this.setStatus(item, "cancelled");
+      } else {
+        item.error = error instanceof Error ? error.message : String(error);
+        this.setStatus(item, "error");
+      }
+    }
+  }
+
+  private setStatus(item: BatchItem<Source>, status: BatchStatus): void {
+    item.status = status;
+    this.onChange(item);
+  }
+}
+
+export function summarizeBatch(items: readonly BatchItem<unknown>[]): BatchSummary {
+  const results = items.flatMap((item) => (item.result ? [item.result] : []));
+  const histogram = new Map<string, number>();
+  for (const shape of results.flatMap((result) => result.shapes)) {
+    const label = shapeLabel(shape);
+    histogram.set(label, (histogram.get(label) ?? 0) + 1);
+  }
+  const times = results.map((result) => result.processingTime);
+  const totalTime = times.reduce((sum, time) => sum + time, 0);
+
+  return {
+    images: items.length,
+    processed: results.length,
+    failed: items.filter((item) => item.status === "error").length,
+    shapes: results.reduce((sum, result) => sum + result.shapes.length, 0),
+    typeHistogram: [...histogram]
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    totalTime,
+    meanTime: results.length ? totalTime / results.length : 0,
+    maxTime: Math.max(0, ...times),
+  };
+}
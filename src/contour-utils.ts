@@ -0,0 +1,176 @@
+import type { Point } from "./detection-core.js";
+
+// Moore neighbourhood, clockwise in image coordinates (y down), starting east
+const MOORE = [
+  [1, 0], [1, 1], [0, 1], [-1, 1],
+  [-1, 0], [-1, -1], [0, -1], [1, -1],
+];
+
+function directionOf(dx: number, dy: number): number {
+  return MOORE.findIndex(([mx, my]) => mx === dx && my === dy);
+}
+
+/**
+ * Trace the outer boundary of the 8-connected region containing
+ * (startX, startY) using Moore-neighbour tracing with Jacob's stopping
+ * criterion. The start pixel must be the region's first pixel in raster
+ * order, so its west neighbour is known to be background.
+ *
+ * Returns boundary pixels in clockwise order, each visited once per pass
+ * (pixels on one-pixel-wide necks can appear twice).
+ */
+export function traceOuterContour(
+  isForeground: (x: number, y: number) => boolean,
+  startX: number,
+  startY: number
+): Point[] {
+  const start = { x: startX, y: startY };
+  const contour: Point[] = [start];
+
+  let current = start;
+  let backtrack = 4; // west
+  let firstMove: Point | null = null;
+  const maxSteps = 1 << 26;
+
+  for (let step = 0; step < maxSteps; step++) {
+    let next: Point | null = null;
+    let nextBacktrack = backtrack;
+
+    for (let k = 1; k <= 8; k++) {
+      const d = (backtrack + k) % 8;
+      const nx = current.x + MOORE[d][0], ny = current.y + MOORE[d][1];
+      if (isForeground(nx, ny)) {
+        // The last background pixel checked becomes the new backtrack
+        const prev = (backtrack + k - 1) % 8;
+        const bx = current.x + MOORE[prev][0], by = current.y + MOORE[prev][1];
+        next = { x: nx, y: ny };
+        nextBacktrack = directionOf(bx - nx, by - ny);
+        break;
+      }
+    }
+
+    if (!next) return contour; // isolated pixel
+
+    if (current.x === start.x && current.y === start.y) {
+      if (firstMove === null) {
+        firstMove = next;
+      } else if (next.x === firstMove.x && next.y === firstMove.y) {
+        contour.pop(); // the start pixel was appended again when we came back
+        return contour;
+      }
+    }
+
+    contour.push(next);
+    current = next;
+    backtrack = nextBacktrack;
+  }
+
+  return contour;
+}
+
+// Length of a closed pixel chain (diagonal steps count √2)
+export function contourLength(contour: Point[]): number {
+  let length = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const a = contour[i], b = contour[(i + 1) % contour.length];
+    length += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return length;
+}
+
+// Signed shoelace area; positive for clockwise polygons in image coordinates
+export function polygonArea(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/** Mean distance from the contour points to the nearest edge of the polygon */
+export function polygonFitResidual(contour: Point[], vertices: Point[]): number {
+  if (contour.length === 0 || vertices.length < 2) return 0;
+  let total = 0;
+  for (const p of contour) {
+    let nearest = Infinity;
+    for (let i = 0; i < vertices.length; i++) {
+      nearest = Math.min(nearest, distanceToSegment(p, vertices[i], vertices[(i + 1) % vertices.length]));
+    }
+    total += nearest;
+  }
+  return total / contour.length;
+}
+
+// Ramer–Douglas–Peucker on an open polyline (iterative, so long contours can't overflow the stack)
+function simplifyOpen(points: Point[], epsilon: number): Point[] {
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0, index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > epsilon) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Approximate a closed contour with a polygon whose edges stay within
+ * `epsilon` pixels of it. The curve is split at the point farthest from
+ * the start, each half is simplified with RDP, and vertices that have
+ * become redundant across the seams are dropped.
+ */
+export function simplifyClosedContour(contour: Point[], epsilon: number): Point[] {
+  if (contour.length < 4) return contour.slice();
+
+  let far = 0, farDist = -1;
+  for (let i = 1; i < contour.length; i++) {
+    const d = Math.hypot(contour[i].x - contour[0].x, contour[i].y - contour[0].y);
+    if (d > farDist) {
+      farDist = d;
+      far = i;
+    }
+  }
+
+  const firstHalf = simplifyOpen(contour.slice(0, far + 1), epsilon);
+  const secondHalf = simplifyOpen([...contour.slice(far), contour[0]], epsilon);
+  const vertices = [...firstHalf.slice(0, -1), ...secondHalf.slice(0, -1)];
+
+  // The split points are arbitrary, so drop any vertex its neighbours already cover
+  let changed = true;
+  while (changed && vertices.length > 3) {
+    changed = false;
+    for (let i = 0; i < vertices.length; i++) {
+      const prev = vertices[(i + vertices.length - 1) % vertices.length];
+      const next = vertices[(i + 1) % vertices.length];
+      if (distanceToSegment(vertices[i], prev, next) <= epsilon) {
+        vertices.splice(i, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  return vertices;
+}
@@ -0,0 +1,193 @@
+import type { DetectionDebug, DetectionResult, RejectionReason } from "./detection-core.js";
+import type { OverlayRenderer } from "./overlay-renderer.js";
+
+export const DEBUG_STAGES = ["image", "gray", "binary", "labels", "rejected"] as const;
+export type DebugStage = (typeof DEBUG_STAGES)[number];
+
+const STAGE_TITLES: Record<DebugStage, string> = {
+  image: "Image",
+  gray: "Grayscale",
+  binary: "Binary",
+  labels: "Labels",
+  rejected: "Rejected",
+};
+
+const REASON_TEXT: Record<RejectionReason, string> = {
+  minComponentPixels: "too few pixels",
+  minArea: "too small",
+  minFillRatio: "too sparse",
+  maxAspectRatio: "too elongated",
+  maxThinness: "too thin",
+};
+
+/**
+ * Renders one pipeline stage of a debug result as a canvas the size of the
+ * image. "rejected" draws the rejected components over `image`; "image"
+ * returns `image` itself.
+ */
+export function renderDebugStage(
+  stage: DebugStage,
+  debug: DetectionDebug,
+  image: HTMLCanvasElement
+): HTMLCanvasElement {
+  if (stage === "image") return image;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext("2d")!;
+
+  if (stage === "rejected") {
+    ctx.globalAlpha = 0.5;
+    ctx.drawImage(image, 0, 0);
+    ctx.globalAlpha = 1;
+    drawRejected(ctx, debug, image.width, image.height);
+    return canvas;
+  }
+
+  const pixels = ctx.createImageData(image.width, image.height);
+  const { data } = pixels;
+  const colors = stage === "labels" ? labelColors(debug) : null;
+  for (let i = 0; i < image.width * image.height; i++) {
+    const value = stage === "gray" ? debug.gray[i] : debug.binary[i] * 255;
+    const o = i * 4;
+    if (colors) {
+      const c = debug.labels[i] * 3;
+      data[o] = colors[c];
+      data[o + 1] = colors[c + 1];
+      data[o + 2] = colors[c + 2];
+    } else {
+      data[o] = data[o + 1] = data[o + 2] = value;
+    }
+    data[o + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+// RGB per label: shapes in well-separated hues (golden-angle steps), background regions dark gray
+function labelColors(debug: DetectionDebug): Uint8Array {
+  const colors = new Uint8Array((debug.labelCount + 1) * 3);
+  for (let label = 1; label <= debug.labelCount; label++) {
+    const rgb = debug.foreground[label] ? hslToRgb((label * 137.508) % 360, 0.75, 0.55) : [40, 40, 40];
+    colors.set(rgb, label * 3);
+  }
+  return colors;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): number[] {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function drawRejected(ctx: CanvasRenderingContext2D, debug: DetectionDebug, width: number, height: number): void {
+  const unit = Math.max(1, Math.round(Math.max(width, height) / 400));
+  ctx.strokeStyle = "#ef4444";
+  ctx.fillStyle = "#ef4444";
+  ctx.lineWidth = unit;
+  ctx.font = `600 ${6 * unit + 4}px system-ui, sans-serif`;
+  ctx.textBaseline = "bottom";
+  for (const { reason, boundingBox: box, area } of debug.rejected) {
+    ctx.strokeRect(box.x + 0.5, box.y + 0.5, box.width, box.height);
+    // Speckle is too small and too common to label individually
+    if (area >= 100) ctx.fillText(REASON_TEXT[reason], box.x, Math.max(6 * unit + 4, box.y - unit));
+  }
+}
+
+/**
+ * Tabs that swap the canvas backdrop between the original image and each
+ * pipeline stage, with the detection overlay still drawn on top.
+ */
+export class DebugPanel {
+  private tabsDiv: HTMLDivElement;
+  private infoDiv: HTMLDivElement;
+  private overlay: OverlayRenderer;
+  private result: DetectionResult | null = null;
+  private stage: DebugStage = "image";
+
+  constructor(tabsDiv: HTMLDivElement, infoDiv: HTMLDivElement, overlay: OverlayRenderer) {
+    this.tabsDiv = tabsDiv;
+    this.infoDiv = infoDiv;
+    this.overlay = overlay;
+    this.tabsDiv.addEventListener("click", (event) => {
+      const tab = (event.target as HTMLElement).closest<HTMLElement>("[data-stage]");
+      if (tab) this.select(tab.dataset.stage as DebugStage);
+    });
+  }
+
+  /** Show the stages of a debug result, keeping the selected tab */
+  show(result: DetectionResult): void {
+    this.result = result.debug ? result : null;
+    if (!this.result) {
+      this.clear();
+      return;
+    }
+    this.tabsDiv.innerHTML = DEBUG_STAGES.map(
+      (stage) => `<button type="button" class="debug-tab" data-stage="${stage}">${STAGE_TITLES[stage]}</button>`
+    ).join("");
+    this.select(this.stage);
+  }
+
+  clear(): void {
+    this.result = null;
+    this.tabsDiv.innerHTML = "";
+    this.infoDiv.innerHTML = "";
+    this.overlay.setBackdrop(null);
+  }
+
+  private select(stage: DebugStage): void {
+    const image = this.overlay.getImage();
+    if (!this.result?.debug || !image) return;
+    this.stage = stage;
+    this.tabsDiv.querySelectorAll<HTMLElement>("[data-stage]").forEach((tab) => {
+      tab.classList.toggle("active", tab.dataset.stage === stage);
+    });
+    this.overlay.setBackdrop(stage === "image" ? null : renderDebugStage(stage, this.result.debug, image));
+    this.infoDiv.innerHTML = this.describe(stage, this.result);
+  }
+
+  private describe(stage: DebugStage, result: DetectionResult): string {
+    const debug = result.debug!;
+    const { mode, polarity, threshold } = result.binarization;
+    switch (stage) {
+      case "image":
+        return `${result.imageWidth}×${result.imageHeight} px, ${result.shapes.length} shapes`;
+      case "gray":
+        return "Luminance (0.299 R + 0.587 G + 0.114 B)";
+      case "binary": {
+        const level = threshold !== undefined ? ` at gray level ${threshold.toFixed(1)}` : "";
+        const shapesAreLight = polarity === null ? "n/a" : String(polarity === "light-on-dark");
+        return `Mode ${mode}${level}; shapes in white. Polarity: ${polarity ?? "none (color)"} (shapesAreLight: ${shapesAreLight})`;
+      }
+      case "labels": {
+        let shapeRegions = 0;
+        for (let label = 1; label <= debug.labelCount; label++) shapeRegions += debug.foreground[label];
+        return `${debug.labelCount} regions: ${shapeRegions} shape, ${debug.labelCount - shapeRegions} background (dark gray)`;
+      }
+      case "rejected": {
+        if (!debug.rejected.length) return "No components were rejected";
+        const counts = new Map<RejectionReason, number>();
+        for (const { reason } of debug.rejected) counts.set(reason, (counts.get(reason) ?? 0) + 1);
+        const items = [...counts].map(([reason, n]) => `<li>${REASON_TEXT[reason]} (<code>${reason}</code>): ${n}</li>`);
+        // The near misses are the interesting ones, so list the largest
+        const largest = debug.rejected
+          .filter(({ area }) => area >= 100)
+          .sort((a, b) => b.area - a.area)
+          .slice(0, 10)
+          .map(({ reason, value, limit, boundingBox: { x, y }, area }) =>
+            `<li>At (${x}, ${y}), ${area} px: <code>${reason}</code> ${formatValue(value)} vs ${formatValue(limit)}</li>`
+          );
+        return `${debug.rejected.length} rejected components<ul>${items.join("")}</ul>` +
+          (largest.length ? `<h4>Largest</h4><ul>${largest.join("")}</ul>` : "");
+      }
+    }
+  }
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
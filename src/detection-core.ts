@@ -0,0 +1,582 @@
+import { resolveDetectorOptions } from "./detector-options.js";
+import type { DetectorOptions, DetectorOptionsInput } from "./detector-options.js";
+import { contourLength, polygonFitResidual, simplifyClosedContour, traceOuterContour } from "./contour-utils.js";
+import {
+  canonicalRotation,
+  ellipseResidual,
+  fitEllipseFromMoments,
+  fitEllipseToPoints,
+  minAreaRect,
+} from "./geometry-utils.js";
+import { labelRegions } from "./labeling.js";
+import { regionMask } from "./regions.js";
+import { shapeConfidence } from "./shape-confidence.js";
+import { splitRegion } from "./shape-splitting.js";
+import type { OrientedBoundingBox, PixelMoments } from "./geometry-utils.js";
+import { binarize } from "./thresholding.js";
+import type { BinarizationInfo } from "./thresholding.js";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type ShapeType =
+  | "circle"
+  | "ellipse"
+  | "triangle"
+  | "rectangle"
+  | "pentagon"
+  | "hexagon"
+  | "octagon"
+  | "polygon"
+  | "star";
+
+export type ShapeStyle = "filled" | "outline";
+
+export interface DetectedShape {
+  type: ShapeType;
+  confidence: number;
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  center: Point;
+  area: number;
+  /** Ordered outer boundary pixels, clockwise */
+  contour: Point[];
+  /** Polygon approximation of `contour`, clockwise */
+  vertices: Point[];
+  /** Minimum-area rectangle around the contour */
+  orientedBoundingBox: OrientedBoundingBox;
+  /** Degrees from the shape's upright pose, modulo its rotational symmetry */
+  rotation: number;
+  /** Vertex count of polygonal shapes (always set for "polygon") */
+  sides?: number;
+  /** Set on rectangles: true when all four sides are (nearly) equal */
+  isSquare?: boolean;
+  /** Index of this shape in `DetectionResult.shapes` */
+  id: number;
+  /** "outline" for stroke-only shapes such as a ring; geometry describes the outer edge */
+  style: ShapeStyle;
+  /** True when the shape was split off a blob of touching or overlapping shapes */
+  overlapping: boolean;
+  /** Innermost shape that encloses this one, or null at the top level */
+  parentId: number | null;
+  /** Shapes directly inside this one */
+  childIds: number[];
+}
+
+export interface DetectionResult {
+  shapes: DetectedShape[];
+  processingTime: number;
+  imageWidth: number;
+  imageHeight: number;
+  /** Thresholding mode used and, where it applies, the polarity and gray level */
+  binarization: BinarizationInfo;
+  /**
+   * Set when the image was downscaled for detection (`maxDimension`): the
+   * factor applied, below 1. Shapes and image size are already mapped
+   * back to the original resolution.
+   */
+  scale?: number;
+  /** Pipeline intermediates, only when `options.debug` is set */
+  debug?: DetectionDebug;
+}
+
+/** What each pipeline stage produced, for inspecting a wrong detection */
+export interface DetectionDebug {
+  /** Gray level per pixel */
+  gray: Uint8ClampedArray;
+  /** 1 for shape pixels, 0 for background (polarity is in `binarization`) */
+  binary: Uint8Array;
+  /** Region label per pixel, for shapes and background regions alike */
+  labels: Int32Array;
+  labelCount: number;
+  /** Per label (1..labelCount): 1 for a shape region, 0 for background */
+  foreground: Uint8Array;
+  /** Components, split pieces and holes dropped as noise, in the order they were analysed */
+  rejected: RejectedComponent[];
+}
+
+/** The option whose limit a rejected component failed */
+export type RejectionReason =
+  | "minComponentPixels"
+  | "minArea"
+  | "minFillRatio"
+  | "maxAspectRatio"
+  | "maxThinness";
+
+export interface RejectedComponent {
+  /** Region label in `DetectionDebug.labels` (shared by the pieces of a split blob) */
+  label: number;
+  reason: RejectionReason;
+  /** The measured value, and the option value it was compared against */
+  value: number;
+  limit: number;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  area: number;
+}
+
+export type DetectionStage = "grayscale" | "threshold" | "labeling" | "analysis" | "hierarchy";
+
+export interface DetectionProgress {
+  /** Stage that just finished, or is under way for "analysis" */
+  stage: DetectionStage;
+  /** Overall completion, 0 to 1 */
+  fraction: number;
+}
+
+/**
+ * Any RGBA pixel buffer: a browser `ImageData`, a decoded PNG in Node,
+ * or a plain typed array. `data` holds 4 bytes per pixel, row-major.
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+/**
+ * Algorithm for detecting and classifying geometric shapes.
+ *
+ * This is the DOM-free core shared by the browser `ShapeDetector` and the
+ * Node entry point, so both run exactly the same pipeline.
+ *
+ * Overview:
+ * 1. Convert RGBA to Grayscale
+ * 2️. Threshold (global mean, Otsu, Sauvola/Niblack or color clustering;
+ *    auto-detect dark/light polarity), keeping only pixels inside the
+ *    regions of interest and outside the exclusions
+ * 3. Connected-component labeling (two-pass union-find) of shapes and of
+ *    their holes, accumulating each region's moments on the way
+ * 4. Compute the geometric features
+ * 5. Trace ordered contours and approximate them with polygons
+ * 6. Filter noise / non-shapes
+ * 7. Classify shapes to circle, ellipse, triangle, rectangle (square),
+ *    pentagon, hexagon, octagon, star or a generic n-sided polygon
+ * 8. Link shapes into a containment hierarchy (outlines and holes
+ *    contain the shapes drawn inside them)
+ * 9. Return formatted DetectionResult
+ *
+ * Every threshold comes from `options` (see `DetectorOptions`); omitted
+ * values fall back to the defaults. `onProgress` is called as the stages
+ * complete, so a worker can relay progress while this runs synchronously.
+ */
+export function detectShapesInBuffer(
+  image: PixelBuffer,
+  options?: DetectorOptionsInput,
+  onProgress?: (progress: DetectionProgress) => void
+): DetectionResult {
+  const startTime = performance.now();
+  const report = (stage: DetectionStage, fraction: number) => onProgress?.({ stage, fraction });
+  const opts = resolveDetectorOptions(options);
+  const { width, height, data } = image;
+  const shapes: DetectedShape[] = [];
+  const rejected: RejectedComponent[] = [];
+
+  if (data.length < width * height * 4) {
+    throw new Error(
+      `Pixel buffer too small: expected ${width * height * 4} bytes, got ${data.length}`
+    );
+  }
+
+  // STEP-1: RGBA to Grayscale conversion
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i=0; i<width * height; i++) {
+    const r = data[i*4], g = data[i*4+1], b = data[i*4+2];
+    gray[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+
+  report("grayscale", 0.05);
+
+  // STEP-2: Thresholding with Polarity Detection (see `binarize` for the modes),
+  // limited to the regions of interest minus the exclusions
+  const mask = regionMask(width, height, opts);
+  const { binary, info: binarization } = binarize(image, gray, opts, mask);
+  report("threshold", 0.2);
+
+  // STEP-3: Connected-Component Labeling (two-pass union-find, see `labelRegions`)
+  const regions = labelRegions(binary, width, height);
+  const { labels, count, foreground, touchesBorder, start, pixelCount, sums } = regions;
+
+  // Masked-out pixels are "don't care": an exclusion inside a shape leaves
+  // a hole that is not a shape, and its pixels are no evidence that the
+  // shape is an outline
+  const maskedCount = new Int32Array(count + 1);
+  if (mask) {
+    for (let i = 0; i < mask.length; i++) if (!mask[i]) maskedCount[labels[i]]++;
+  }
+
+  // A hole's top neighbour belongs to the shape that owns it; a shape's
+  // left neighbour belongs to the background around it (0 = none).
+  const owner = new Int32Array(count + 1);
+  const holesOf = new Map<number, number[]>();
+  for (let label=1; label<=count; label++) {
+    if (foreground[label]) {
+      owner[label] = start[label] % width > 0 ? labels[start[label] - 1] : 0;
+    } else if (!touchesBorder[label]) {
+      const o = labels[start[label] - width];
+      owner[label] = o;
+      if (holesOf.has(o)) holesOf.get(o)!.push(label);
+      else holesOf.set(o, [label]);
+    }
+  }
+
+  // Everything inside a region's outer boundary counts towards it: its own
+  // pixels plus all the holes and shapes nested in it. Owners always have
+  // smaller labels, so one backwards sweep folds every region into them.
+  const filledCount = Int32Array.from(pixelCount);
+  const filledMasked = Int32Array.from(maskedCount);
+  const filledSums = Float64Array.from(sums);
+  for (let label=count; label>=1; label--) {
+    const o = owner[label];
+    if (!o || (!foreground[o] && touchesBorder[o])) continue;
+    filledCount[o] += filledCount[label];
+    filledMasked[o] += filledMasked[label];
+    for (let k=0; k<5; k++) filledSums[o * 5 + k] += filledSums[label * 5 + k];
+  }
+
+  const statsOf = (label: number): RegionStats => ({
+    count: filledCount[label],
+    sumX: filledSums[label * 5],
+    sumY: filledSums[label * 5 + 1],
+    sumXX: filledSums[label * 5 + 2],
+    sumYY: filledSums[label * 5 + 3],
+    sumXY: filledSums[label * 5 + 4],
+    minX: regions.minX[label],
+    minY: regions.minY[label],
+    maxX: regions.maxX[label],
+    maxY: regions.maxY[label],
+    start: { x: start[label] % width, y: Math.floor(start[label] / width) },
+  });
+  const hasLabel = (label: number) => (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+  // True when `label` is `ancestor` or nested somewhere inside it
+  const isWithin = (label: number, ancestor: number) => {
+    while (label > ancestor) label = owner[label];
+    return label === ancestor;
+  };
+
+  // STEP-4..7: Analyse every component (split into pieces where shapes
+  // touch or overlap), plus the holes of filled components
+  const shapeOfRegion = new Map<number, number>();
+  const pieceShapes = new Map<number, (i: number) => number | undefined>();
+  const componentShapes: [number, number][] = [];
+  const reject = (label: number, region: RegionStats, rejection: Rejection) => {
+    if (!opts.debug) return;
+    const { minX, minY, maxX, maxY, count: area } = region;
+    const boundingBox = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    rejected.push({ label, ...rejection, boundingBox, area });
+  };
+  const addShape = (
+    label: number,
+    region: RegionStats,
+    analysis: Omit<DetectedShape, "id"> | Rejection
+  ): number | undefined => {
+    if ("reason" in analysis) {
+      reject(label, region, analysis);
+      return undefined;
+    }
+    shapes.push({ ...analysis, id: shapes.length });
+    return shapes.length - 1;
+  };
+  report("labeling", 0.4);
+
+  // Analysis dominates the run time, so it reports in steps of ~5%
+  const progressStep = Math.max(1, Math.ceil(count / 20));
+  for (let label=1; label<=count; label++) {
+    if (label % progressStep === 0) report("analysis", 0.4 + 0.55 * (label / count));
+    if (!foreground[label]) continue;
+    if (pixelCount[label] < opts.minComponentPixels) { // ignore tiny noise
+      if (opts.debug) {
+        reject(label, statsOf(label), {
+          reason: "minComponentPixels",
+          value: pixelCount[label],
+          limit: opts.minComponentPixels,
+        });
+      }
+      continue;
+    }
+
+    const holes = holesOf.get(label) ?? [];
+    const stats = statsOf(label);
+    const largestHole = holes.reduce((n, h) => Math.max(n, filledCount[h] - filledMasked[h]), 0);
+    const style: ShapeStyle = largestHole / (stats.count - filledMasked[label]) >= opts.minOutlineHoleRatio ? "outline" : "filled";
+
+    const pieces = style === "filled" && opts.splitTouching && stats.count >= 2 * opts.minArea
+      ? splitComponent(
+          stats,
+          labels,
+          width,
+          holes.length ? l => isWithin(l, label) : l => l === label,
+          opts
+        )
+      : null;
+
+    if (!pieces) {
+      const id = addShape(label, stats, analyzeRegion(stats, hasLabel(label), style, opts));
+      if (id !== undefined) {
+        shapeOfRegion.set(label, id);
+        componentShapes.push([label, id]);
+      }
+    } else {
+      const ids = pieces.stats.map((piece, n) => {
+        const id = addShape(label, piece, analyzeRegion(
+          piece,
+          (x, y) => pieces.pieceAt(x, y) === n + 1,
+          style,
+          opts,
+          (x, y) => { const other = pieces.pieceAt(x, y); return other !== 0 && other !== n + 1; }
+        ));
+        if (id !== undefined) componentShapes.push([label, id]);
+        return id;
+      });
+      pieceShapes.set(label, i => ids[pieces.pieceAt(i % width, Math.floor(i / width)) - 1]);
+    }
+    if (style === "outline") continue;
+
+    // Background-coloured shapes drawn on top of a filled shape
+    for (const hole of holes) {
+      if (maskedCount[hole] || pixelCount[hole] < opts.minComponentPixels) continue;
+      const holeStats = statsOf(hole);
+      const id = addShape(hole, holeStats, analyzeRegion(holeStats, hasLabel(hole), "filled", opts));
+      if (id !== undefined) shapeOfRegion.set(hole, id);
+    }
+  }
+
+  // STEP-8: Containment hierarchy. A region's shape is its own if it was
+  // kept, otherwise that of whatever encloses it. A hole belongs to the
+  // shape (or split piece) just above its first pixel.
+  const pixelShape = (i: number): number | null => {
+    const label = labels[i];
+    return pieceShapes.get(label)?.(i) ?? shapeOfRegion.get(label) ?? backgroundShape(owner[label]);
+  };
+  const backgroundShape = (label: number): number | null => {
+    if (label === 0 || touchesBorder[label]) return null;
+    return shapeOfRegion.get(label) ?? pixelShape(start[label] - width);
+  };
+
+  for (const [label, id] of componentShapes) {
+    shapes[id].parentId = backgroundShape(owner[label]);
+  }
+  for (const [label, id] of shapeOfRegion) {
+    if (!foreground[label]) shapes[id].parentId = pixelShape(start[label] - width);
+  }
+  for (const shape of shapes) {
+    if (shape.parentId !== null) shapes[shape.parentId].childIds.push(shape.id);
+  }
+  report("hierarchy", 1);
+
+  const processingTime = performance.now() - startTime;
+
+  return {
+    shapes,
+    processingTime,
+    imageWidth: width,
+    imageHeight: height,
+    binarization,
+    ...(opts.debug && {
+      debug: { gray, binary, labels, labelCount: count, foreground, rejected },
+    }),
+  };
+}
+
+/** Pixel moments of a region plus the bounds and first pixel needed to trace it */
+interface RegionStats extends PixelMoments {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  /** First pixel in raster order */
+  start: Point;
+}
+
+type Rejection = Pick<RejectedComponent, "reason" | "value" | "limit">;
+
+interface ComponentPieces {
+  stats: RegionStats[];
+  /** 1-based piece at an image pixel, 0 outside the component */
+  pieceAt: (x: number, y: number) => number;
+}
+
+// Run `splitRegion` over one component's bounding box, made of the pixels
+// whose label `isInside` accepts; null if it stays whole
+function splitComponent(
+  component: RegionStats,
+  labels: Int32Array,
+  imageWidth: number,
+  isInside: (label: number) => boolean,
+  opts: DetectorOptions
+): ComponentPieces | null {
+  const { minX, minY, maxX, maxY } = component;
+  // One pixel of padding so the mask is always surrounded by background
+  const w = maxX - minX + 3, h = maxY - minY + 3;
+  const mask = new Uint8Array(w * h);
+  // Labels come in runs, so each run is only tested once
+  let last = 0, inside = false;
+  for (let y=minY; y<=maxY; y++) {
+    for (let x=minX; x<=maxX; x++) {
+      const label = labels[y * imageWidth + x];
+      if (label !== last) {
+        last = label;
+        inside = isInside(label);
+      }
+      if (inside) mask[(y - minY + 1) * w + (x - minX + 1)] = 1;
+    }
+  }
+
+  const split = splitRegion(mask, w, h, opts);
+  if (!split) return null;
+
+  const stats: RegionStats[] = Array.from({ length: split.count }, () => ({
+    count: 0, sumX: 0, sumY: 0, sumXX: 0, sumYY: 0, sumXY: 0,
+    minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity,
+    start: { x: 0, y: 0 },
+  }));
+  for (let y=1; y<h-1; y++) {
+    for (let x=1; x<w-1; x++) {
+      const piece = split.labels[y * w + x];
+      if (!piece) continue;
+      const s = stats[piece - 1];
+      const px = x + minX - 1, py = y + minY - 1;
+      if (s.count === 0) s.start = { x: px, y: py };
+      s.count++;
+      s.sumX += px; s.sumY += py;
+      s.sumXX += px * px; s.sumYY += py * py; s.sumXY += px * py;
+      if (px < s.minX) s.minX = px;
+      if (px > s.maxX) s.maxX = px;
+      if (py < s.minY) s.minY = py;
+      s.maxY = py;
+    }
+  }
+
+  return {
+    stats,
+    pieceAt: (x, y) =>
+      x < minX || x > maxX || y < minY || y > maxY ? 0 : split.labels[(y - minY + 1) * w + (x - minX + 1)],
+  };
+}
+
+// Measure, filter and classify one region, or say which filter rejected it
+function analyzeRegion(
+  region: RegionStats,
+  isInside: (x: number, y: number) => boolean,
+  style: ShapeStyle,
+  opts: DetectorOptions,
+  isCut?: (x: number, y: number) => boolean
+): Omit<DetectedShape, "id"> | Rejection {
+  // STEP-4: Compute geometric metrics (accumulated during labeling)
+  const { minX, minY, maxX, maxY, start } = region;
+  const area = region.count;
+  const bbox = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+  if (area < opts.minArea) return { reason: "minArea", value: area, limit: opts.minArea };
+
+  // STEP-5: Trace the ordered outer contour and approximate it with a polygon
+  const contour = traceOuterContour(isInside, start.x, start.y);
+  const perimeter = contourLength(contour);
+  const circularity = (4 * Math.PI * area) / (perimeter * perimeter + 1e-6);
+
+  const epsilon = Math.max(1, opts.polygonEpsilon * perimeter);
+  const vertices = simplifyClosedContour(contour, epsilon);
+  const corners = vertices.length;
+
+  // STEP-6: Reject non-shape noise / lines / text
+  const bboxArea = bbox.width * bbox.height;
+  const fillRatio = area / (bboxArea + 1e-6);
+  const aspectRatio = Math.max(bbox.width, bbox.height) / Math.max(1, Math.min(bbox.width, bbox.height));
+  const thinness = perimeter / (area + 1);
+
+  if (fillRatio < opts.minFillRatio) return { reason: "minFillRatio", value: fillRatio, limit: opts.minFillRatio };
+  if (aspectRatio > opts.maxAspectRatio) return { reason: "maxAspectRatio", value: aspectRatio, limit: opts.maxAspectRatio };
+  if (thinness > opts.maxThinness) return { reason: "maxThinness", value: thinness, limit: opts.maxThinness };
+
+  // STEP-7: Shape Classification
+  // Curved outlines are recognised by how well an ellipse fits them;
+  // everything else is named after its polygon vertex count. A piece split
+  // off a merged blob is judged only by its own boundary, not the cut.
+  const freeContour = isCut
+    ? contour.filter(p => !MOORE_OFFSETS.some(([dx, dy]) => isCut(p.x + dx, p.y + dy)))
+    : contour;
+  const occludedFit = freeContour !== contour && freeContour.length >= contour.length / 2
+    ? fitEllipseToPoints(freeContour)
+    : null;
+  const ellipse = occludedFit ?? fitEllipseFromMoments(region);
+  const residual = ellipseResidual(freeContour, ellipse);
+  const curved = residual < opts.maxEllipseResidual;
+  const axisRatio = ellipse.semiMinor / Math.max(1e-6, ellipse.semiMajor);
+  const orientedBoundingBox = minAreaRect(contour);
+
+  let type: ShapeType = "polygon";
+  let sides: number | undefined = corners;
+  let isSquare: boolean | undefined;
+
+  if (curved && axisRatio>=opts.minCircleAxisRatio && (occludedFit || circularity>opts.circularityThreshold)) {
+    type = "circle";
+    sides = undefined;
+  } else if (curved) {
+    type = "ellipse";
+    sides = undefined;
+  } else if (corners<=3) {
+    type = "triangle";
+  } else if (corners===4) {
+    type = "rectangle";
+    const { width: long, height: short } = orientedBoundingBox;
+    isSquare = long > 0 && (long - short) / long <= opts.squareTolerance;
+  } else if (corners===5) {
+    type = "pentagon";
+  } else {
+    const ratio = bbox.width / bbox.height;
+    if (corners>=opts.minStarVertices && ratio<opts.maxStarAspectRatio && circularity<opts.maxStarCircularity) {
+      type = "star";
+      sides = undefined;
+    } else if (corners===6) {
+      type = "hexagon";
+    } else if (corners===8) {
+      type = "octagon";
+    } else {
+      type = "polygon";
+    }
+  }
+
+  // Confidence: score how well the shape fits the class it was given
+  const confidence = shapeConfidence({
+    type,
+    vertices,
+    circularity,
+    ellipseResidual: residual,
+    axisRatio,
+    polygonResidual: curved ? 0 : polygonFitResidual(contour, vertices),
+    polygonEpsilon: epsilon,
+    // Does the vertex count survive a tighter or looser simplification?
+    alternativeCorners: curved ? [] : [0.7, 1.4].map((f) => simplifyClosedContour(contour, epsilon * f).length),
+    occluded: occludedFit !== null,
+  }, opts);
+
+  const rotation = type === "ellipse"
+    ? ellipse.angle
+    : canonicalRotation(type, vertices, orientedBoundingBox, isSquare);
+
+  return {
+    type,
+    confidence,
+    boundingBox: bbox,
+    center,
+    area,
+    contour,
+    vertices,
+    orientedBoundingBox,
+    rotation,
+    ...(sides !== undefined && { sides }),
+    ...(isSquare !== undefined && { isSquare }),
+    style,
+    overlapping: isCut !== undefined,
+    parentId: null,
+    childIds: [],
+  };
+}
+
+const MOORE_OFFSETS = [[1,0], [1,1], [0,1], [-1,1], [-1,0], [-1,-1], [0,-1], [1,-1]];
@@ -0,0 +1,22 @@
+import { detectShapesInBuffer } from "./detection-core.js";
+import type { WorkerRequest, WorkerResponse } from "./worker-detector.js";
+
+// Runs the detection core off the main thread; see `WorkerShapeDetector`
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, width, height, buffer, options } = event.data;
+  try {
+    const result = detectShapesInBuffer(
+      { width, height, data: new Uint8ClampedArray(buffer) },
+      options,
+      (progress) => post({ type: "progress", id, progress })
+    );
+    // Hand the debug buffers over instead of copying them
+    const { debug } = result;
+    const buffers = debug ? [debug.gray, debug.binary, debug.labels, debug.foreground] : [];
+    post({ type: "result", id, result }, buffers.map((array) => array.buffer as ArrayBuffer));
+  } catch (error) {
+    post({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
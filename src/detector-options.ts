@@ -0,0 +1,218 @@
+import { validateRegions } from "./regions.js";
+import type { DetectionRegion } from "./regions.js";
+
+/**
+ * Tunable thresholds for `detectShapesInBuffer`. The defaults are the values
+ * the detector was originally tuned with on the synthetic test images.
+ */
+export interface DetectorOptions {
+  /** How pixels are split into shapes and background (see `binarize`) */
+  thresholdMode: ThresholdMode;
+  /** Side length in pixels of the window used by "sauvola" and "niblack" */
+  adaptiveWindowSize: number;
+  /** Local standard deviation below which "sauvola" and "niblack" treat a window as flat */
+  adaptiveMinContrast: number;
+  /** Sauvola sensitivity k; higher values keep fewer low-contrast pixels */
+  sauvolaK: number;
+  /** Niblack offset k, in local standard deviations; negative values erode shapes, positive ones grow them */
+  niblackK: number;
+  /** Number of k-means color clusters in "color" mode */
+  colorClusters: number;
+  /** Clusters within this Lab distance (ΔE) of the background color also count as background */
+  colorDistanceThreshold: number;
+  /** Components with fewer pixels are dropped before any feature is computed */
+  minComponentPixels: number;
+  /** A component whose largest hole covers at least this fraction of its filled area is an outline */
+  minOutlineHoleRatio: number;
+  /** Split blobs of touching or overlapping shapes into separate detections (see `splitRegion`) */
+  splitTouching: boolean;
+  /** Minimum depth in pixels of the distance-transform valley between two shapes before they are split */
+  splitMinDepth: number;
+  /** ...and minimum depth as a fraction of the smaller shape's inscribed radius */
+  splitDepthRatio: number;
+  /** Minimum pixel area of a shape (outlines count their enclosed area) */
+  minArea: number;
+  /** Minimum area / bounding-box area; rejects hollow or sparse blobs */
+  minFillRatio: number;
+  /** Maximum long side / short side of the bounding box; rejects lines */
+  maxAspectRatio: number;
+  /** Maximum perimeter / area; rejects text and thin strokes */
+  maxThinness: number;
+  /** Circularity (4πA/P²) a curved shape needs to be a circle */
+  circularityThreshold: number;
+  /** Mean relative deviation from the best-fit ellipse below which a shape counts as curved */
+  maxEllipseResidual: number;
+  /** Minor / major axis ratio at or above which a curved shape is a circle rather than an ellipse */
+  minCircleAxisRatio: number;
+  /** Maximum (long - short) / long side difference for a rectangle to be a square */
+  squareTolerance: number;
+  /** Polygon approximation tolerance, as a fraction of the contour length */
+  polygonEpsilon: number;
+  /** Polygons are named by vertex count (3 triangle ... 8 octagon); a star needs at least this many... */
+  minStarVertices: number;
+  /** ...must be roughly as wide as it is tall... */
+  maxStarAspectRatio: number;
+  /** ...and far from circular */
+  maxStarCircularity: number;
+  /** Only detect inside these areas (the whole image when empty); shapes crossing their edge are clipped */
+  regions: DetectionRegion[];
+  /** Never detect in these areas, e.g. headers, logos and legends */
+  exclusions: DetectionRegion[];
+  /** Return the intermediate buffers and rejected components as `DetectionResult.debug` */
+  debug: boolean;
+}
+
+export const THRESHOLD_MODES = ["mean", "otsu", "sauvola", "niblack", "color"] as const;
+
+export type ThresholdMode = (typeof THRESHOLD_MODES)[number];
+
+export type DetectorPresetName = "clean-synthetic" | "noisy-scan" | "tiny-shapes";
+
+/** Partial options, optionally on top of a named preset */
+export type DetectorOptionsInput = Partial<DetectorOptions> & {
+  preset?: DetectorPresetName;
+};
+
+export const DEFAULT_DETECTOR_OPTIONS: Readonly<DetectorOptions> = Object.freeze({
+  thresholdMode: "mean",
+  adaptiveWindowSize: 31,
+  adaptiveMinContrast: 12,
+  sauvolaK: 0.1,
+  niblackK: 0,
+  colorClusters: 4,
+  colorDistanceThreshold: 12,
+  minComponentPixels: 40,
+  minOutlineHoleRatio: 0.5,
+  splitTouching: true,
+  splitMinDepth: 3,
+  splitDepthRatio: 0.2,
+  minArea: 300,
+  minFillRatio: 0.2,
+  maxAspectRatio: 4.0,
+  maxThinness: 0.5,
+  circularityThreshold: 0.75,
+  maxEllipseResidual: 0.006,
+  minCircleAxisRatio: 0.85,
+  squareTolerance: 0.1,
+  polygonEpsilon: 0.02,
+  minStarVertices: 8,
+  maxStarAspectRatio: 1.2,
+  maxStarCircularity: 0.4,
+  regions: [],
+  exclusions: [],
+  debug: false,
+});
+
+export const DETECTOR_PRESETS: Readonly<Record<DetectorPresetName, Partial<DetectorOptions>>> = {
+  // Crisp vector renders like the bundled test images
+  "clean-synthetic": {},
+  // Scanned or photographed pages: ignore speckle and ragged strokes
+  "noisy-scan": {
+    thresholdMode: "sauvola",
+    minComponentPixels: 120,
+    minArea: 600,
+    minFillRatio: 0.3,
+    maxThinness: 0.35,
+    polygonEpsilon: 0.03,
+  },
+  // Icons and small glyph-sized shapes, where perimeter/area is naturally high
+  "tiny-shapes": {
+    minComponentPixels: 8,
+    minArea: 30,
+    maxThinness: 1.2,
+    circularityThreshold: 0.7,
+    polygonEpsilon: 0.04,
+  },
+};
+
+export function isDetectorPresetName(name: string): name is DetectorPresetName {
+  return Object.prototype.hasOwnProperty.call(DETECTOR_PRESETS, name);
+}
+
+/**
+ * Copy the defined values of `overrides` onto `target`, which holds every
+ * known key. Throws on a key `target` lacks, naming it as a `kind`.
+ */
+export function mergeOptions<T extends object>(target: T, overrides: Partial<T>, kind: string): T {
+  for (const key of Object.keys(overrides) as (keyof T & string)[]) {
+    if (!Object.prototype.hasOwnProperty.call(target, key)) throw new Error(`Unknown ${kind} "${key}"`);
+    const value = overrides[key];
+    if (value !== undefined) target[key] = value as T[keyof T & string];
+  }
+  return target;
+}
+
+/**
+ * Merge defaults, an optional preset and explicit overrides (later wins),
+ * then validate the result. Throws on unknown keys or out-of-range values.
+ */
+export function resolveDetectorOptions(...inputs: (DetectorOptionsInput | undefined)[]): DetectorOptions {
+  const options: DetectorOptions = { ...DEFAULT_DETECTOR_OPTIONS };
+
+  for (const input of inputs) {
+    if (!input) continue;
+    const { preset, ...overrides } = input;
+    if (preset !== undefined) {
+      if (!isDetectorPresetName(preset)) {
+        throw new Error(
+          `Unknown detector preset "${preset}" (expected one of ${Object.keys(DETECTOR_PRESETS).join(", ")})`
+        );
+      }
+      Object.assign(options, DETECTOR_PRESETS[preset]);
+    }
+    mergeOptions(options, overrides, "detector option");
+  }
+
+  validateDetectorOptions(options);
+  return options;
+}
+
+export function validateDetectorOptions(options: DetectorOptions): void {
+  const { thresholdMode, niblackK, splitTouching, debug, regions, exclusions, ...numeric } = options;
+  if (!THRESHOLD_MODES.includes(thresholdMode)) {
+    throw new Error(
+      `Detector option "thresholdMode" must be one of ${THRESHOLD_MODES.join(", ")} (got ${thresholdMode})`
+    );
+  }
+  for (const [key, value] of Object.entries({ splitTouching, debug })) {
+    if (typeof value !== "boolean") {
+      throw new Error(`Detector option "${key}" must be a boolean (got ${value})`);
+    }
+  }
+  validateRegions(regions, "regions");
+  validateRegions(exclusions, "exclusions");
+  if (typeof niblackK !== "number" || !Number.isFinite(niblackK)) {
+    throw new Error(`Detector option "niblackK" must be a number (got ${niblackK})`);
+  }
+  for (const [key, value] of Object.entries(numeric)) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Detector option "${key}" must be a non-negative number (got ${value})`);
+    }
+  }
+
+  const check = (condition: boolean, message: string) => {
+    if (!condition) throw new Error(`Invalid detector options: ${message}`);
+  };
+  check(options.minFillRatio <= 1, "minFillRatio must be at most 1");
+  check(options.splitDepthRatio <= 1, "splitDepthRatio must be at most 1");
+  check(options.minOutlineHoleRatio <= 1, "minOutlineHoleRatio must be at most 1");
+  check(options.maxAspectRatio >= 1, "maxAspectRatio must be at least 1");
+  check(options.circularityThreshold <= 1, "circularityThreshold must be at most 1");
+  check(options.minCircleAxisRatio <= 1, "minCircleAxisRatio must be at most 1");
+  check(options.squareTolerance < 1, "squareTolerance must be below 1");
+  check(options.maxStarCircularity <= 1, "maxStarCircularity must be at most 1");
+  check(options.maxStarAspectRatio >= 1, "maxStarAspectRatio must be at least 1");
+  check(
+    Number.isInteger(options.adaptiveWindowSize) && options.adaptiveWindowSize >= 3,
+    "adaptiveWindowSize must be an integer of at least 3"
+  );
+  check(
+    Number.isInteger(options.colorClusters) && options.colorClusters >= 2 && options.colorClusters <= 16,
+    "colorClusters must be an integer between 2 and 16"
+  );
+  check(options.polygonEpsilon > 0 && options.polygonEpsilon < 0.5, "polygonEpsilon must be in (0, 0.5)");
+  check(
+    Number.isInteger(options.minStarVertices) && options.minStarVertices >= 6,
+    "minStarVertices must be an integer of at least 6"
+  );
+}
@@ -0,0 +1,218 @@
+import type { Point } from "./detection-core.js";
+import { calculateIoU, matchByIoU } from "./evaluation-utils.js";
+import type { OverallResults } from "./evaluation-utils.js";
+import { shapeLabel } from "./result-export.js";
+
+// Saved evaluation runs, and what changed between one of them and a new run
+
+const BASELINE_VERSION = 1;
+
+/** A detected shape, as much of it as a later run is compared on */
+export interface BaselineShape {
+  /** "square" for squares and e.g. "polygon (7)" for unnamed polygons */
+  label: string;
+  center: Point;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  confidence: number;
+}
+
+export interface BaselineImage {
+  imageName: string;
+  passed: boolean;
+  precision: number;
+  recall: number;
+  f1: number;
+  iou: number;
+  /** Mean center distance of the matched shapes, in pixels */
+  centerError: number;
+  processingTime: number;
+  shapes: BaselineShape[];
+}
+
+/** Snapshot of an evaluation run; what `--save-baseline` writes and the UI keeps */
+export interface EvaluationBaseline {
+  version: number;
+  name: string;
+  createdAt: string;
+  grade: string;
+  percentage: number;
+  summary: OverallResults["summary"];
+  images: BaselineImage[];
+}
+
+export interface MetricDelta {
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface ImageComparison {
+  imageName: string;
+  precision: MetricDelta;
+  recall: MetricDelta;
+  f1: MetricDelta;
+  iou: MetricDelta;
+  centerError: MetricDelta;
+  processingTime: MetricDelta;
+  passedBefore: boolean;
+  passedAfter: boolean;
+  /** Detections with no counterpart in the other run */
+  shapesAdded: number;
+  shapesRemoved: number;
+}
+
+/** A shape found in both runs (bounding boxes overlap with IoU ≥ 0.5) under different labels */
+export interface ShapeFlip {
+  imageName: string;
+  before: string;
+  after: string;
+  center: Point;
+}
+
+export interface BaselineComparison {
+  baselineName: string;
+  baselineCreatedAt: string;
+  grade: { before: string; after: string };
+  percentage: MetricDelta;
+  averageF1: MetricDelta;
+  averageIoU: MetricDelta;
+  totalProcessingTime: MetricDelta;
+  /** Images evaluated in both runs */
+  images: ImageComparison[];
+  /** Images only in the new run, or only in the baseline */
+  addedImages: string[];
+  removedImages: string[];
+  newlyFailing: string[];
+  newlyPassing: string[];
+  flippedShapes: ShapeFlip[];
+  /** Why the new run counts as a regression; empty when it doesn't */
+  regressions: string[];
+}
+
+// Changes smaller than these are noise, not regressions
+const IOU_TOLERANCE = 0.01;
+const CENTER_TOLERANCE = 1;
+
+export function createBaseline(
+  name: string,
+  results: OverallResults,
+  createdAt = new Date().toISOString()
+): EvaluationBaseline {
+  return {
+    version: BASELINE_VERSION,
+    name,
+    createdAt,
+    grade: results.grade,
+    percentage: results.percentage,
+    summary: { ...results.summary },
+    images: results.testResults.map(({ imageName, passed, evaluation, detectionResult }) => ({
+      imageName,
+      passed,
+      precision: evaluation.precision,
+      recall: evaluation.recall,
+      f1: evaluation.f1_score,
+      iou: evaluation.average_iou,
+      centerError: evaluation.center_point_accuracy,
+      processingTime: detectionResult.processingTime,
+      shapes: detectionResult.shapes.map((shape) => ({
+        label: shapeLabel(shape),
+        center: { ...shape.center },
+        boundingBox: { ...shape.boundingBox },
+        confidence: shape.confidence,
+      })),
+    })),
+  };
+}
+
+/** Read a saved baseline, rejecting anything that isn't one */
+export function parseBaseline(json: string): EvaluationBaseline {
+  const baseline = JSON.parse(json);
+  if (!baseline || typeof baseline !== "object" || !Array.isArray(baseline.images) || !baseline.summary) {
+    throw new Error("Not an evaluation baseline (expected name, summary and images)");
+  }
+  if (baseline.version !== BASELINE_VERSION) {
+    throw new Error(`Unsupported baseline version ${baseline.version} (expected ${BASELINE_VERSION})`);
+  }
+  return baseline;
+}
+
+export function compareToBaseline(baseline: EvaluationBaseline, results: OverallResults): BaselineComparison {
+  const current = createBaseline(baseline.name, results);
+  const before = new Map(baseline.images.map((image) => [image.imageName, image]));
+  const after = new Map(current.images.map((image) => [image.imageName, image]));
+
+  const images: ImageComparison[] = [];
+  const flippedShapes: ShapeFlip[] = [];
+  for (const next of current.images) {
+    const previous = before.get(next.imageName);
+    if (!previous) continue;
+    const pairing = pairShapes(previous.shapes, next.shapes);
+    for (const [i, j] of pairing.pairs) {
+      if (previous.shapes[i].label !== next.shapes[j].label) {
+        flippedShapes.push({
+          imageName: next.imageName,
+          before: previous.shapes[i].label,
+          after: next.shapes[j].label,
+          center: next.shapes[j].center,
+        });
+      }
+    }
+    images.push({
+      imageName: next.imageName,
+      precision: delta(previous.precision, next.precision),
+      recall: delta(previous.recall, next.recall),
+      f1: delta(previous.f1, next.f1),
+      iou: delta(previous.iou, next.iou),
+      centerError: delta(previous.centerError, next.centerError),
+      processingTime: delta(previous.processingTime, next.processingTime),
+      passedBefore: previous.passed,
+      passedAfter: next.passed,
+      shapesAdded: next.shapes.length - pairing.pairs.length,
+      shapesRemoved: previous.shapes.length - pairing.pairs.length,
+    });
+  }
+
+  const newlyFailing = images.filter((i) => i.passedBefore && !i.passedAfter).map((i) => i.imageName);
+  const regressions: string[] = [];
+  if (newlyFailing.length) regressions.push(`${newlyFailing.length} newly failing image(s): ${newlyFailing.join(", ")}`);
+  if (flippedShapes.length) regressions.push(`${flippedShapes.length} shape(s) changed type`);
+  for (const image of images) {
+    const worse: string[] = [];
+    if (image.f1.change < 0) worse.push(`F1 ${image.f1.change.toFixed(3)}`);
+    if (image.iou.change < -IOU_TOLERANCE) worse.push(`IoU ${image.iou.change.toFixed(3)}`);
+    if (image.centerError.change > CENTER_TOLERANCE) worse.push(`center error +${image.centerError.change.toFixed(1)}px`);
+    if (worse.length) regressions.push(`${image.imageName}: ${worse.join(", ")}`);
+  }
+
+  return {
+    baselineName: baseline.name,
+    baselineCreatedAt: baseline.createdAt,
+    grade: { before: baseline.grade, after: results.grade },
+    percentage: delta(baseline.percentage, results.percentage),
+    averageF1: delta(baseline.summary.averageF1, results.summary.averageF1),
+    averageIoU: delta(baseline.summary.averageIoU, results.summary.averageIoU),
+    totalProcessingTime: delta(baseline.summary.totalProcessingTime, results.summary.totalProcessingTime),
+    images,
+    addedImages: current.images.filter((image) => !before.has(image.imageName)).map((image) => image.imageName),
+    removedImages: baseline.images.filter((image) => !after.has(image.imageName)).map((image) => image.imageName),
+    newlyFailing,
+    newlyPassing: images.filter((i) => !i.passedBefore && i.passedAfter).map((i) => i.imageName),
+    flippedShapes,
+    regressions,
+  };
+}
+
+// The same shape in both runs: optimal pairing by bounding-box IoU, labels ignored
+function pairShapes(before: BaselineShape[], after: BaselineShape[]): { pairs: [number, number][] } {
+  const ious = before.map((a) => after.map((b) => calculateIoU(a.boundingBox, b.boundingBox)));
+  const assignment = matchByIoU(ious, 0.5);
+  const pairs: [number, number][] = [];
+  assignment.forEach((j, i) => {
+    if (j >= 0) pairs.push([i, j]);
+  });
+  return { pairs };
+}
+
+function delta(before: number, after: number): MetricDelta {
+  return { before, after, change: after - before };
+}
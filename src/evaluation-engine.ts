@@ -0,0 +1,62 @@
+import type { DetectionResult, PixelBuffer } from "./detection-core.js";
+import { createErrorTestResult, scoreTestResult, summarizeTestResults } from "./evaluation-utils.js";
+import type { EvaluationOptions, GroundTruthData, OverallResults, TestResult } from "./evaluation-utils.js";
+import { DEFAULT_RUBRIC, applyToleranceGuidelines } from "./scoring-rubric.js";
+import type { ScoringRubric } from "./scoring-rubric.js";
+
+export interface EvaluationImage<Image = PixelBuffer> {
+  name: string;
+  load: () => Promise<Image>;
+}
+
+export interface EngineOptions extends EvaluationOptions {
+  /** Progress and per-image errors; silent when omitted */
+  log?: (message: string) => void;
+}
+
+/**
+ * The rubric a run uses when none is given: `DEFAULT_RUBRIC` with its
+ * thresholds taken from the ground truth's `tolerance_guidelines`.
+ */
+export function rubricForGroundTruth(groundTruth: GroundTruthData): ScoringRubric {
+  return applyToleranceGuidelines(DEFAULT_RUBRIC, groundTruth.metadata?.tolerance_guidelines);
+}
+
+/**
+ * Runs `detect` on each image in turn and scores it against its entry in
+ * `groundTruth` (none means no shapes are expected). An image that fails to
+ * load or detect scores zero instead of ending the run. Images are loaded
+ * one at a time, so memory stays flat however many there are.
+ */
+export async function evaluateImages<Image = PixelBuffer>(
+  images: EvaluationImage<Image>[],
+  groundTruth: GroundTruthData,
+  detect: (image: Image) => Promise<DetectionResult>,
+  options: EngineOptions = {}
+): Promise<OverallResults> {
+  const { log = () => {}, ...evaluationOptions } = options;
+  const rubric = evaluationOptions.rubric ?? rubricForGroundTruth(groundTruth);
+  const testResults: TestResult[] = [];
+  let totalScore = 0;
+
+  for (const image of images) {
+    log(`Testing: ${image.name}`);
+    const gtImage = groundTruth.images[image.name];
+    if (!gtImage) log(`  no ground truth for ${image.name}, expecting no shapes`);
+
+    try {
+      const detectionResult = await detect(await image.load());
+      const { testResult, score } = scoreTestResult(image.name, detectionResult, gtImage?.shapes || [], {
+        ...evaluationOptions,
+        rubric,
+      });
+      totalScore += score;
+      testResults.push(testResult);
+    } catch (error) {
+      log(`  error: ${error}`);
+      testResults.push(createErrorTestResult(image.name, error));
+    }
+  }
+
+  return summarizeTestResults(testResults, totalScore, rubric);
+}
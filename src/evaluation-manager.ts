@@ -1,5 +1,6 @@
 
 
+import type { BrowserEvaluationOptions } from "./evaluation.js";
 import type { ShapeDetector } from "./main.js";
 import { ModalManager } from "./ui-utils.js";
 
@@ -7,15 +8,30 @@ export class EvaluationManager {
   private detector: ShapeDetector;
   private evaluateButton: HTMLButtonElement;
   private evaluationResultsDiv: HTMLDivElement;
+  private robustnessToggle: HTMLInputElement;
+  private rubricInput: HTMLInputElement;
 
   constructor(
     detector: ShapeDetector,
     evaluateButton: HTMLButtonElement,
-    evaluationResultsDiv: HTMLDivElement
+    evaluationResultsDiv: HTMLDivElement,
+    robustnessToggle: HTMLInputElement,
+    rubricInput: HTMLInputElement
   ) {
     this.detector = detector;
     this.evaluateButton = evaluateButton;
     this.evaluationResultsDiv = evaluationResultsDiv;
+    this.robustnessToggle = robustnessToggle;
+    this.rubricInput = rubricInput;
+  }
+
+  // Robustness toggle, plus the chosen rubric file (a bad file fails the run)
+  private async evaluationOptions(): Promise<BrowserEvaluationOptions> {
+    const robustness = this.robustnessToggle.checked;
+    const file = this.rubricInput.files?.[0];
+    if (!file) return { robustness };
+    const { parseRubric } = await import("./scoring-rubric.js");
+    return { robustness, rubric: parseRubric(await file.text()) };
   }
 
   async runSelectedEvaluation(selectedImages: string[]): Promise<void> {
@@ -33,7 +49,8 @@ export class EvaluationManager {
       const evaluationModule = await import("./evaluation.js");
       const results = await evaluationModule.runSelectedEvaluation(
         this.detector,
-        selectedImages
+        selectedImages,
+        await this.evaluationOptions()
       );
 
       ModalManager.showEvaluationModal(results);
@@ -48,6 +65,37 @@ export class EvaluationManager {
     }
   }
 
+  async runSyntheticEvaluation(button: HTMLButtonElement, count: number, seed: number): Promise<void> {
+    if (!Number.isInteger(count) || count < 1 || !Number.isInteger(seed)) {
+      alert("Enter a whole number of scenes (at least 1) and a whole-number seed");
+      return;
+    }
+
+    const label = button.textContent;
+    try {
+      button.disabled = true;
+      button.textContent = "Evaluating...";
+
+      const evaluationModule = await import("./evaluation.js");
+      const results = await evaluationModule.runSyntheticEvaluation(
+        this.detector,
+        count,
+        seed,
+        await this.evaluationOptions()
+      );
+
+      ModalManager.showEvaluationModal(results);
+
+      console.log("Synthetic Evaluation Results:", results);
+    } catch (error) {
+      alert(`Error during evaluation: ${error}`);
+      console.error("Evaluation error:", error);
+    } finally {
+      button.disabled = false;
+      button.textContent = label;
+    }
+  }
+
   async runFullEvaluation(): Promise<void> {
     try {
       this.evaluateButton.disabled = true;
@@ -55,13 +103,19 @@ export class EvaluationManager {
         "<p>Running comprehensive evaluation...</p>";
 
       const evaluationModule = await import("./evaluation.js");
-      const results = await evaluationModule.runEvaluation(this.detector);
-
-      evaluationModule.displayEvaluationResults(
-        results,
-        this.evaluationResultsDiv
+      const results = await evaluationModule.runEvaluation(
+        this.detector,
+        await this.evaluationOptions()
       );
 
+      const { BaselinePanel } = await import("./baseline-panel.js");
+      const baselineContainer = document.createElement("div");
+      const resultsContainer = document.createElement("div");
+      this.evaluationResultsDiv.replaceChildren(baselineContainer, resultsContainer);
+      const render = () => evaluationModule.displayEvaluationResults(results, resultsContainer);
+      new BaselinePanel(baselineContainer, results, render);
+      render();
+
       console.log("Full Evaluation Results:", results);
     } catch (error) {
       this.evaluationResultsDiv.innerHTML = `<p>Error during evaluation: ${error}</p>`;
@@ -0,0 +1,245 @@
+import type { BaselineComparison } from "./evaluation-baseline.js";
+import type { CalibrationReport, DetectionQuality, OverallResults } from "./evaluation-utils.js";
+import { describePerturbation } from "./image-perturbations.js";
+import type { RobustnessReport } from "./robustness.js";
+import { DEFAULT_RUBRIC } from "./scoring-rubric.js";
+
+// Plain-text and machine-readable renderings of an evaluation run
+
+const DEFAULT_GRADES = DEFAULT_RUBRIC.grades.map((g) => g.grade);
+
+// Grades are matched case-insensitively; `grades` lists them best first, as a rubric does
+const gradeRank = (grade: string, grades: string[]) =>
+  grades.findIndex((g) => g.toUpperCase() === grade.toUpperCase());
+
+/** Positive when `a` is a better grade than `b` */
+export function compareGrades(a: string, b: string, grades: string[] = DEFAULT_GRADES): number {
+  return gradeRank(b, grades) - gradeRank(a, grades);
+}
+
+export function isValidGrade(grade: string, grades: string[] = DEFAULT_GRADES): boolean {
+  return gradeRank(grade, grades) >= 0;
+}
+
+export function formatResultsTable(results: OverallResults): string {
+  const header = ["Image", "Shapes", "Precision", "Recall", "F1", "IoU", "Time", "Result"];
+  const rows = results.testResults.map((r) => [
+    r.imageName,
+    String(r.detectionResult.shapes.length),
+    `${(r.evaluation.precision * 100).toFixed(1)}%`,
+    `${(r.evaluation.recall * 100).toFixed(1)}%`,
+    r.evaluation.f1_score.toFixed(3),
+    r.evaluation.average_iou.toFixed(3),
+    `${r.detectionResult.processingTime.toFixed(0)}ms`,
+    r.passed ? "PASS" : "FAIL",
+  ]);
+
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((row) => row[i].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+
+  const { summary } = results;
+  return [
+    line(header),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...rows.map(line),
+    "",
+    `Average Precision: ${(summary.averagePrecision * 100).toFixed(1)}%`,
+    `Average Recall:    ${(summary.averageRecall * 100).toFixed(1)}%`,
+    `Average F1 Score:  ${summary.averageF1.toFixed(3)}`,
+    `Average IoU:       ${summary.averageIoU.toFixed(3)}`,
+    `Processing Time:   ${summary.totalProcessingTime.toFixed(0)}ms`,
+    `Score:             ${results.totalScore}/${results.maxScore} (${results.percentage}%) - Grade ${results.grade}`,
+    `Rubric:            ${results.rubric.name} (pass mark ${results.rubric.passMark}%)`,
+    "",
+    formatDetectionQuality(results.detectionQuality),
+    "",
+    formatCalibration(results.calibration),
+    ...(results.robustness ? ["", formatRobustness(results.robustness)] : []),
+    ...(results.baselineComparison ? ["", formatBaselineComparison(results.baselineComparison)] : []),
+  ].join("\n");
+}
+
+/** Missed versus mislabeled counts, per-class AP and the confusion matrix */
+export function formatDetectionQuality(quality: DetectionQuality): string {
+  const lines = [
+    `Matched: ${quality.correct} correct, ${quality.mislabeled} mislabeled; ` +
+      `${quality.missed} missed, ${quality.falsePositives} false positives`,
+    `mAP@0.5:0.95: ${quality.mAP.toFixed(3)}   mAP@0.5: ${quality.mAP50.toFixed(3)}`,
+  ];
+
+  if (quality.classAP.length) {
+    const width = Math.max(5, ...quality.classAP.map((c) => c.label.length));
+    lines.push("", `${"Class".padEnd(width)}  GT     AP  AP50`);
+    for (const c of quality.classAP) {
+      lines.push(`${c.label.padEnd(width)}  ${String(c.groundTruth).padStart(2)}  ${c.ap.toFixed(3)}  ${c.ap50.toFixed(2)}`);
+    }
+  }
+
+  const { labels, counts } = quality.confusionMatrix;
+  if (labels.length > 1) {
+    // Rows are the ground truth, columns the detections
+    const names = labels.map((label) => (label === "background" ? "(none)" : label));
+    const width = Math.max(...names.map((name) => name.length));
+    lines.push("", "Confusion matrix (rows: actual, columns: detected)");
+    lines.push(["".padEnd(width), ...names.map((name) => name.padStart(width))].join(" "));
+    counts.forEach((row, i) => {
+      lines.push([names[i].padEnd(width), ...row.map((n) => String(n || ".").padStart(width))].join(" "));
+    });
+  }
+  return lines.join("\n");
+}
+
+/** Reliability diagram as text: one bar of accuracy per confidence bin */
+export function formatCalibration(report: CalibrationReport): string {
+  const lines = [
+    `Calibration: ECE ${report.ece.toFixed(3)}, MCE ${report.mce.toFixed(3)} over ${report.detections} detections`,
+  ];
+  const bins = report.bins.filter((bin) => bin.count > 0);
+  if (bins.length) {
+    lines.push("", "Range        N  Conf   Acc");
+    for (const bin of bins) {
+      const bar = "#".repeat(Math.round(bin.accuracy * 20)).padEnd(20, ".");
+      lines.push(
+        `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}  ${String(bin.count).padStart(4)}  ` +
+          `${bin.meanConfidence.toFixed(2)}  ${bin.accuracy.toFixed(2)}  ${bar}`
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/** F1 and IoU per perturbation level, with the change from the clean images */
+export function formatRobustness(report: RobustnessReport): string {
+  const { baseline } = report;
+  const rows = report.curves.flatMap((curve) =>
+    curve.levels.map((level) => [
+      curve.kind,
+      describePerturbation({ kind: curve.kind, strength: level.strength }),
+      level.averageF1.toFixed(3),
+      signed(level.f1Change),
+      level.averageIoU.toFixed(3),
+      signed(level.iouChange),
+    ])
+  );
+  const header = ["Perturbation", "Level", "F1", "ΔF1", "IoU", "ΔIoU"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (i < 2 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+  return [
+    `Robustness over ${report.images} images (seed ${report.seed}): ` +
+      `clean F1 ${baseline.averageF1.toFixed(3)}, IoU ${baseline.averageIoU.toFixed(3)}`,
+    "",
+    line(header),
+    ...rows.map(line),
+  ].join("\n");
+}
+
+/** Per-image changes from a baseline run, with what flipped and what newly fails */
+export function formatBaselineComparison(comparison: BaselineComparison): string {
+  const lines = [
+    `Compared with baseline "${comparison.baselineName}" (${comparison.baselineCreatedAt}): ` +
+      `grade ${comparison.grade.before} -> ${comparison.grade.after}, ` +
+      `score ${signed(comparison.percentage.change, 1)}%, F1 ${signed(comparison.averageF1.change)}, ` +
+      `IoU ${signed(comparison.averageIoU.change)}`,
+  ];
+
+  const changed = comparison.images.filter(
+    (image) =>
+      image.passedBefore !== image.passedAfter ||
+      [image.precision, image.recall, image.iou, image.centerError].some((d) => Math.abs(d.change) >= 0.0005) ||
+      image.shapesAdded ||
+      image.shapesRemoved
+  );
+  if (changed.length) {
+    const header = ["Image", "ΔPrecision", "ΔRecall", "ΔIoU", "ΔCenter", "ΔTime", "Result"];
+    const rows = changed.map((image) => [
+      image.imageName,
+      signed(image.precision.change),
+      signed(image.recall.change),
+      signed(image.iou.change),
+      `${signed(image.centerError.change, 1)}px`,
+      `${signed(image.processingTime.change, 0)}ms`,
+      image.passedBefore === image.passedAfter
+        ? image.passedAfter ? "PASS" : "FAIL"
+        : `${image.passedBefore ? "PASS" : "FAIL"} -> ${image.passedAfter ? "PASS" : "FAIL"}`,
+    ]);
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+    const line = (cells: string[]) =>
+      cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ");
+    lines.push("", line(header), ...rows.map(line));
+  } else {
+    lines.push("", "No per-image changes.");
+  }
+
+  if (comparison.flippedShapes.length) {
+    lines.push("", "Shapes that changed type:");
+    for (const flip of comparison.flippedShapes) {
+      lines.push(
+        `  ${flip.imageName} at (${flip.center.x.toFixed(0)}, ${flip.center.y.toFixed(0)}): ${flip.before} -> ${flip.after}`
+      );
+    }
+  }
+  if (comparison.newlyFailing.length) lines.push("", `Newly failing: ${comparison.newlyFailing.join(", ")}`);
+  if (comparison.newlyPassing.length) lines.push(`Newly passing: ${comparison.newlyPassing.join(", ")}`);
+  if (comparison.addedImages.length) lines.push(`Not in baseline: ${comparison.addedImages.join(", ")}`);
+  if (comparison.removedImages.length) lines.push(`Missing from this run: ${comparison.removedImages.join(", ")}`);
+  return lines.join("\n");
+}
+
+function signed(value: number, digits = 3): string {
+  // Rounded first, so a tiny negative change doesn't print as "-0"
+  const rounded = Number(value.toFixed(digits));
+  return `${rounded >= 0 ? "+" : "-"}${Math.abs(rounded).toFixed(digits)}`;
+}
+
+export function toJsonReport(results: OverallResults): string {
+  return JSON.stringify(results, null, 2);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// One <testcase> per image; images below the pass mark become <failure>s
+export function toJUnitXml(results: OverallResults, suiteName = "shape-detection"): string {
+  const failures = results.testResults.filter((r) => !r.passed).length;
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+  const cases = results.testResults.map((r) => {
+    const feedback = escapeXml(r.feedback.join("\n"));
+    const body = r.passed
+      ? `      <system-out>${feedback}</system-out>\n`
+      : `      <failure message="${escapeXml(`F1 ${r.evaluation.f1_score.toFixed(3)}, IoU ${r.evaluation.average_iou.toFixed(3)}`)}">${feedback}</failure>\n`;
+    return (
+      `    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(r.imageName)}" time="${seconds(r.detectionResult.processingTime)}">\n` +
+      body +
+      `    </testcase>\n`
+    );
+  });
+
+  const totalTime = seconds(results.summary.totalProcessingTime);
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<testsuites name="${escapeXml(suiteName)}" tests="${results.testResults.length}" failures="${failures}" time="${totalTime}">\n` +
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${results.testResults.length}" failures="${failures}" errors="0" time="${totalTime}">\n` +
+    `    <properties>\n` +
+    `      <property name="grade" value="${escapeXml(results.grade)}"/>\n` +
+    `      <property name="rubric" value="${escapeXml(results.rubric.name)}"/>\n` +
+    `      <property name="percentage" value="${results.percentage}"/>\n` +
+    `      <property name="averageF1" value="${results.summary.averageF1.toFixed(4)}"/>\n` +
+    `      <property name="mAP" value="${results.detectionQuality.mAP.toFixed(4)}"/>\n` +
+    `      <property name="ece" value="${results.calibration.ece.toFixed(4)}"/>\n` +
+    `    </properties>\n` +
+    cases.join("") +
+    `  </testsuite>\n` +
+    `</testsuites>\n`
+  );
+}
@@ -1,3 +1,11 @@
+import { solveAssignment } from "./assignment.js";
+import type { DetectedShape, DetectionResult, Point } from "./detection-core.js";
+import { DEFAULT_DETECTOR_OPTIONS } from "./detector-options.js";
+import { orientedBoxCorners, polygonIoU } from "./geometry-utils.js";
+import type { BaselineComparison } from "./evaluation-baseline.js";
+import type { RobustnessReport } from "./robustness.js";
+import { DEFAULT_RUBRIC, maxRubricScore, scoreCriterion } from "./scoring-rubric.js";
+import type { ScoringRubric } from "./scoring-rubric.js";
 
 export interface GroundTruthShape {
   type: string;
@@ -7,9 +15,22 @@ export interface GroundTruthShape {
   confidence_expected?: number;
   vertices?: { x: number; y: number }[];
   radius?: number;
+  /** Vertex count for type "polygon" */
+  sides?: number;
   [key: string]: any;
 }
 
+export interface GroundTruthImage {
+  image_dimensions?: { width: number; height: number };
+  shapes: GroundTruthShape[];
+  [key: string]: any;
+}
+
+export interface GroundTruthData {
+  metadata?: { [key: string]: any };
+  images: Record<string, GroundTruthImage>;
+}
+
 export interface EvaluationMetrics {
   precision: number;
   recall: number;
@@ -37,15 +58,115 @@ export function calculateIoU(box1: any, box2: any): number {
 }
 
 
+/**
+ * How detections are overlapped with ground truth:
+ * - "axis-aligned": bounding-box IoU (the default)
+ * - "rotated": polygon IoU whenever the ground truth has `vertices` (or a
+ *   `rotation_degrees` for its box), falling back to bounding boxes otherwise
+ */
+export type IoUMode = "axis-aligned" | "rotated";
+
+export interface EvaluationOptions {
+  iouMode?: IoUMode;
+  /** Match threshold, scoring and grades; `DEFAULT_RUBRIC` when omitted */
+  rubric?: ScoringRubric;
+}
+
+
+// Ground-truth outline as a polygon, or null when only an axis-aligned box is known
+export function groundTruthPolygon(gtShape: GroundTruthShape): Point[] | null {
+  if (gtShape.vertices && gtShape.vertices.length >= 3) return gtShape.vertices;
+  const box = gtShape.bounding_box;
+  if (box && typeof gtShape.rotation_degrees === "number") {
+    const center = gtShape.center ?? { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    return orientedBoxCorners({ center, width: box.width, height: box.height, angle: gtShape.rotation_degrees });
+  }
+  return null;
+}
+
+
+// Detected outline as a polygon: the simplified vertices, else the oriented box
+export function detectionPolygon(detectedShape: DetectedShape): Point[] | null {
+  if (detectedShape.vertices && detectedShape.vertices.length >= 3) return detectedShape.vertices;
+  if (detectedShape.orientedBoundingBox) return orientedBoxCorners(detectedShape.orientedBoundingBox);
+  return null;
+}
+
+
+export function calculateShapeIoU(detectedShape: DetectedShape, gtShape: GroundTruthShape, mode: IoUMode = "axis-aligned"): number {
+  if (mode === "rotated") {
+    const gtPolygon = groundTruthPolygon(gtShape);
+    const detPolygon = detectionPolygon(detectedShape);
+    if (gtPolygon && detPolygon) return polygonIoU(detPolygon, gtPolygon);
+  }
+  return calculateIoU(detectedShape.boundingBox, gtShape.bounding_box);
+}
+
+
+// Polygon side counts that have their own label
+const POLYGON_NAMES: Record<number, string> = {
+  3: "triangle",
+  4: "rectangle",
+  5: "pentagon",
+  6: "hexagon",
+  8: "octagon",
+};
+
+function canonicalLabel(type: string, sides?: number): string {
+  const label = type.toLowerCase();
+  if (label === "polygon" && sides !== undefined && POLYGON_NAMES[sides]) {
+    return POLYGON_NAMES[sides];
+  }
+  return label;
+}
+
+
+/**
+ * Whether a detection carries the ground-truth label. Besides exact type
+ * matches this understands "square" (a rectangle with `isSquare`) and
+ * "polygon" with a `sides` count, which also matches the named n-gon.
+ */
+export function shapeLabelsMatch(detectedShape: DetectedShape, gtShape: GroundTruthShape): boolean {
+  const detected = canonicalLabel(detectedShape.type, detectedShape.sides);
+  const expected = canonicalLabel(gtShape.type, gtShape.sides);
+
+  if (expected === "square") {
+    return detected === "rectangle" && detectedShape.isSquare !== false;
+  }
+  if (expected === "polygon" && detected === "polygon" && gtShape.sides !== undefined) {
+    return detectedShape.sides === gtShape.sides;
+  }
+  return detected === expected;
+}
+
+
+/**
+ * Optimal one-to-one matching of detections (rows) to ground-truth shapes
+ * (columns), using only pairs whose IoU exceeds `threshold`. It makes as
+ * many matches as possible and, among those, maximizes the total IoU.
+ * Returns the ground-truth index per detection, or -1.
+ */
+export function matchByIoU(ious: number[][], threshold: number): number[] {
+  const pairs = Math.min(ious.length, ious[0]?.length ?? 0);
+  // Each match outweighs any IoU total, so the count is maximized first
+  const cost = ious.map((row) => row.map((iou) => (iou > threshold ? -(pairs + 1 + iou) : 0)));
+  return solveAssignment(cost).map((gt, d) => (gt >= 0 && ious[d][gt] > threshold ? gt : -1));
+}
+
+
 export function calculateDistance(p1: { x: number; y: number }, p2: { x: number; y: number }): number {
   return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
 }
 
 
-export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape[], imageName: string): EvaluationMetrics {
-  const iouThreshold = 0.5;
-  const centerThreshold = 10; 
-  const areaThreshold = 0.15; 
+export function evaluateDetection(
+  detected: any[],
+  groundTruth: GroundTruthShape[],
+  _imageName: string,
+  options: EvaluationOptions = {}
+): EvaluationMetrics {
+  const iouMode = options.iouMode ?? "axis-aligned";
+  const iouThreshold = (options.rubric ?? DEFAULT_RUBRIC).matchThreshold;
   
   let truePositives = 0;
   let totalIoU = 0;
@@ -53,46 +174,36 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
   let totalAreaError = 0;
   let confidenceErrors = 0;
   
-  const matched = new Set();
+  // Only shapes with matching labels can pair up
+  const ious = detected.map((detectedShape) =>
+    groundTruth.map((gtShape) =>
+      shapeLabelsMatch(detectedShape, gtShape) ? calculateShapeIoU(detectedShape, gtShape, iouMode) : 0
+    )
+  );
+  const assignment = matchByIoU(ious, iouThreshold);
   
-  for (const detectedShape of detected) {
-    let bestMatch = null;
-    let bestIoU = 0;
-    let bestIndex = -1;
+  for (let d = 0; d < detected.length; d++) {
+    if (assignment[d] < 0) continue;
+    const detectedShape = detected[d];
+    const bestMatch = groundTruth[assignment[d]];
+    const bestIoU = ious[d][assignment[d]];
     
-    for (let i = 0; i < groundTruth.length; i++) {
-      if (matched.has(i)) continue;
-      
-      const gtShape = groundTruth[i];
-      if (detectedShape.type !== gtShape.type) continue;
-      
-      const iou = calculateIoU(detectedShape.boundingBox, gtShape.bounding_box);
-      if (iou > bestIoU && iou > iouThreshold) {
-        bestMatch = gtShape;
-        bestIoU = iou;
-        bestIndex = i;
-      }
+    truePositives++;
+    totalIoU += bestIoU;
+    
+    if (bestMatch.center && detectedShape.center) {
+      const distance = calculateDistance(detectedShape.center, bestMatch.center);
+      totalCenterDistance += distance;
     }
     
-    if (bestMatch) {
-      matched.add(bestIndex);
-      truePositives++;
-      totalIoU += bestIoU;
-      
-      if (bestMatch.center && detectedShape.center) {
-        const distance = calculateDistance(detectedShape.center, bestMatch.center);
-        totalCenterDistance += distance;
-      }
-      
-      if (bestMatch.area && detectedShape.area) {
-        const areaError = Math.abs(detectedShape.area - bestMatch.area) / bestMatch.area;
-        totalAreaError += areaError;
-      }
-      
-      if (bestMatch.confidence_expected && detectedShape.confidence) {
-        const confError = Math.abs(detectedShape.confidence - bestMatch.confidence_expected);
-        confidenceErrors += confError;
-      }
+    if (bestMatch.area && detectedShape.area) {
+      const areaError = Math.abs(detectedShape.area - bestMatch.area) / bestMatch.area;
+      totalAreaError += areaError;
+    }
+    
+    if (bestMatch.confidence_expected && detectedShape.confidence) {
+      const confError = Math.abs(detectedShape.confidence - bestMatch.confidence_expected);
+      confidenceErrors += confError;
     }
   }
   
@@ -111,3 +222,510 @@ export function evaluateDetection(detected: any[], groundTruth: GroundTruthShape
     processing_time: 0 
   };
 }
+
+
+/**
+ * Class-agnostic view of one image: every detection is paired with the
+ * ground truth it overlaps best (optimal matching, labels ignored), which
+ * tells a missed shape apart from a mislabeled one. Also keeps the IoUs
+ * and confidences needed for average precision across images.
+ */
+export interface ImageMatching {
+  /** Canonical ground-truth labels ("square" stays "square") */
+  groundTruthLabels: string[];
+  /** Per detection: the ground-truth label when it is correct, else its own canonical label */
+  detectionLabels: string[];
+  confidences: number[];
+  /** IoU of each detection (rows) with each ground-truth shape, labels ignored */
+  ious: number[][];
+  /** Ground-truth index matched to each detection, or -1 */
+  assignment: number[];
+  /** Matched with the right label */
+  correct: number;
+  /** Matched, but with the wrong label */
+  mislabeled: number;
+  /** Ground truth with no detection at all */
+  missed: number;
+  /** Detections with no ground truth */
+  falsePositives: number;
+}
+
+export function analyzeMatches(
+  detected: DetectedShape[],
+  groundTruth: GroundTruthShape[],
+  options: EvaluationOptions = {}
+): ImageMatching {
+  const iouMode = options.iouMode ?? "axis-aligned";
+  const ious = detected.map((detectedShape) =>
+    groundTruth.map((gtShape) => calculateShapeIoU(detectedShape, gtShape, iouMode))
+  );
+  const assignment = matchByIoU(ious, (options.rubric ?? DEFAULT_RUBRIC).matchThreshold);
+
+  const groundTruthLabels = groundTruth.map((gtShape) => canonicalLabel(gtShape.type, gtShape.sides));
+  let correct = 0;
+  const detectionLabels = detected.map((detectedShape, d) => {
+    const gt = assignment[d];
+    if (gt >= 0 && shapeLabelsMatch(detectedShape, groundTruth[gt])) {
+      correct++;
+      return groundTruthLabels[gt];
+    }
+    return canonicalLabel(detectedShape.type, detectedShape.sides);
+  });
+  const matches = assignment.filter((gt) => gt >= 0).length;
+
+  return {
+    groundTruthLabels,
+    detectionLabels,
+    confidences: detected.map((detectedShape) => detectedShape.confidence ?? 0),
+    ious,
+    assignment,
+    correct,
+    mislabeled: matches - correct,
+    missed: groundTruth.length - matches,
+    falsePositives: detected.length - matches,
+  };
+}
+
+/** Counts of actual (rows) against predicted (columns) labels */
+export interface ConfusionMatrix {
+  /** Class labels, ending with "background": a missed shape or a spurious detection */
+  labels: string[];
+  counts: number[][];
+}
+
+export interface ClassAveragePrecision {
+  label: string;
+  /** Ground-truth shapes of this class */
+  groundTruth: number;
+  /** AP averaged over IoU thresholds 0.5, 0.55, ..., 0.95 */
+  ap: number;
+  /** AP at IoU 0.5 */
+  ap50: number;
+}
+
+export interface DetectionQuality {
+  correct: number;
+  mislabeled: number;
+  missed: number;
+  falsePositives: number;
+  confusionMatrix: ConfusionMatrix;
+  /** Per-class AP; squares count as rectangles */
+  classAP: ClassAveragePrecision[];
+  /** Mean of the per-class APs over IoU 0.5:0.95 (COCO mAP) */
+  mAP: number;
+  mAP50: number;
+}
+
+const IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => 0.5 + i * 0.05);
+
+// AP classes merge "square" into "rectangle", since detections are rectangles either way
+const apClass = (label: string) => (label === "square" ? "rectangle" : label);
+
+export function summarizeDetectionQuality(matchings: ImageMatching[]): DetectionQuality {
+  const quality: DetectionQuality = {
+    correct: 0,
+    mislabeled: 0,
+    missed: 0,
+    falsePositives: 0,
+    confusionMatrix: { labels: [], counts: [] },
+    classAP: [],
+    mAP: 0,
+    mAP50: 0,
+  };
+
+  // Confusion matrix over every label seen, background last
+  const labelSet = new Set<string>();
+  for (const m of matchings) {
+    m.groundTruthLabels.forEach((label) => labelSet.add(label));
+    m.detectionLabels.forEach((label) => labelSet.add(label));
+  }
+  const labels = [...labelSet].sort();
+  labels.push("background");
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const background = labels.length - 1;
+  const counts = labels.map(() => new Array(labels.length).fill(0));
+
+  for (const m of matchings) {
+    quality.correct += m.correct;
+    quality.mislabeled += m.mislabeled;
+    quality.missed += m.missed;
+    quality.falsePositives += m.falsePositives;
+    const matchedGt = new Set<number>();
+    m.assignment.forEach((gt, d) => {
+      const predicted = index.get(m.detectionLabels[d])!;
+      if (gt >= 0) {
+        matchedGt.add(gt);
+        counts[index.get(m.groundTruthLabels[gt])!][predicted]++;
+      } else {
+        counts[background][predicted]++;
+      }
+    });
+    m.groundTruthLabels.forEach((label, gt) => {
+      if (!matchedGt.has(gt)) counts[index.get(label)!][background]++;
+    });
+  }
+  quality.confusionMatrix = { labels, counts };
+
+  // AP per class that has ground truth
+  const classes = [...new Set(matchings.flatMap((m) => m.groundTruthLabels.map(apClass)))].sort();
+  quality.classAP = classes.map((label) => {
+    const groundTruth = matchings.reduce(
+      (n, m) => n + m.groundTruthLabels.filter((l) => apClass(l) === label).length,
+      0
+    );
+    const aps = IOU_THRESHOLDS.map((threshold) => averagePrecision(matchings, label, threshold, groundTruth));
+    return { label, groundTruth, ap: mean(aps), ap50: aps[0] };
+  });
+  quality.mAP = mean(quality.classAP.map((c) => c.ap));
+  quality.mAP50 = mean(quality.classAP.map((c) => c.ap50));
+  return quality;
+}
+
+/** Per-class counts, labels as in the confusion matrix ("square" apart from "rectangle") */
+export interface ShapeTypeSummary {
+  label: string;
+  groundTruth: number;
+  /** Detections given this label */
+  detected: number;
+  correct: number;
+  /** Ground truth of this class found under another label */
+  mislabeled: number;
+  missed: number;
+  /** Detections of this label that aren't a correct match */
+  falsePositives: number;
+  precision: number;
+  recall: number;
+}
+
+export function summarizeShapeTypes(matchings: ImageMatching[]): ShapeTypeSummary[] {
+  const summaries = new Map<string, ShapeTypeSummary>();
+  const summary = (label: string) => {
+    let entry = summaries.get(label);
+    if (!entry) {
+      entry = { label, groundTruth: 0, detected: 0, correct: 0, mislabeled: 0, missed: 0, falsePositives: 0, precision: 0, recall: 0 };
+      summaries.set(label, entry);
+    }
+    return entry;
+  };
+
+  for (const m of matchings) {
+    m.groundTruthLabels.forEach((label) => summary(label).groundTruth++);
+    m.detectionLabels.forEach((label, d) => {
+      const entry = summary(label);
+      entry.detected++;
+      const gt = m.assignment[d];
+      if (gt >= 0 && m.groundTruthLabels[gt] === label) {
+        entry.correct++;
+      } else {
+        entry.falsePositives++;
+        if (gt >= 0) summary(m.groundTruthLabels[gt]).mislabeled++;
+      }
+    });
+    m.groundTruthLabels.forEach((label, gt) => {
+      if (!m.assignment.includes(gt)) summary(label).missed++;
+    });
+  }
+
+  return [...summaries.values()]
+    .map((entry) => ({
+      ...entry,
+      precision: entry.detected > 0 ? entry.correct / entry.detected : 0,
+      recall: entry.groundTruth > 0 ? entry.correct / entry.groundTruth : 0,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * COCO-style AP for one class at one IoU threshold: detections are taken
+ * from the most confident down, each matching the best still-unmatched
+ * ground truth of its class, and precision is averaged at 101 recall points.
+ */
+function averagePrecision(matchings: ImageMatching[], label: string, threshold: number, groundTruth: number): number {
+  const candidates = matchings.flatMap((m, image) =>
+    m.detectionLabels
+      .map((l, d) => ({ image, d, confidence: m.confidences[d], l }))
+      .filter(({ l }) => apClass(l) === label)
+  );
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const taken = matchings.map((m) => new Array(m.groundTruthLabels.length).fill(false));
+  const truePositive = candidates.map(({ image, d }) => {
+    const m = matchings[image];
+    let best = -1;
+    let bestIoU = threshold;
+    m.groundTruthLabels.forEach((l, gt) => {
+      if (taken[image][gt] || apClass(l) !== label) return;
+      if (m.ious[d][gt] >= bestIoU) {
+        best = gt;
+        bestIoU = m.ious[d][gt];
+      }
+    });
+    if (best >= 0) taken[image][best] = true;
+    return best >= 0;
+  });
+
+  // Precision envelope at each recall level, then sampled at 0, 0.01, ..., 1
+  const precision: number[] = [];
+  const recall: number[] = [];
+  let tp = 0;
+  truePositive.forEach((hit, i) => {
+    if (hit) tp++;
+    precision.push(tp / (i + 1));
+    recall.push(groundTruth > 0 ? tp / groundTruth : 0);
+  });
+  for (let i = precision.length - 2; i >= 0; i--) precision[i] = Math.max(precision[i], precision[i + 1]);
+
+  let sum = 0;
+  let k = 0;
+  for (let r = 0; r <= 100; r++) {
+    while (k < recall.length && recall[k] < r / 100 - 1e-9) k++;
+    if (k < recall.length) sum += precision[k];
+  }
+  return sum / 101;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export interface CalibrationBin {
+  /** Confidence range [lower, upper); the last bin includes 1 */
+  lower: number;
+  upper: number;
+  /** Detections whose confidence falls in the bin */
+  count: number;
+  meanConfidence: number;
+  /** Share of those detections matched with the right label */
+  accuracy: number;
+}
+
+/** Reliability diagram data: how often detections at each confidence are right */
+export interface CalibrationReport {
+  bins: CalibrationBin[];
+  /** Expected calibration error: the count-weighted mean |accuracy - confidence| over the bins */
+  ece: number;
+  /** Largest |accuracy - confidence| of any non-empty bin */
+  mce: number;
+  detections: number;
+}
+
+/**
+ * Bins every detection by confidence and compares each bin's mean
+ * confidence with the share that was correct (matched, right label). A
+ * well-calibrated detector's 0.8 detections are right 80% of the time.
+ */
+export function summarizeCalibration(matchings: ImageMatching[], binCount = 10): CalibrationReport {
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    meanConfidence: 0,
+    accuracy: 0,
+  }));
+
+  let detections = 0;
+  for (const m of matchings) {
+    m.confidences.forEach((confidence, d) => {
+      const gt = m.assignment[d];
+      const correct = gt >= 0 && m.detectionLabels[d] === m.groundTruthLabels[gt];
+      const bin = bins[Math.min(binCount - 1, Math.max(0, Math.floor(confidence * binCount)))];
+      bin.count++;
+      bin.meanConfidence += confidence;
+      bin.accuracy += correct ? 1 : 0;
+      detections++;
+    });
+  }
+
+  let ece = 0;
+  let mce = 0;
+  for (const bin of bins) {
+    if (!bin.count) continue;
+    bin.meanConfidence /= bin.count;
+    bin.accuracy /= bin.count;
+    const gap = Math.abs(bin.accuracy - bin.meanConfidence);
+    ece += (bin.count / detections) * gap;
+    mce = Math.max(mce, gap);
+  }
+  return { bins, ece, mce, detections };
+}
+
+
+export interface TestResult {
+  imageName: string;
+  detectionResult: DetectionResult;
+  evaluation: EvaluationMetrics;
+  /** Missing for images whose detection failed */
+  matching?: ImageMatching;
+  /** What the image was scored against; missing for images whose detection failed */
+  groundTruth?: GroundTruthShape[];
+  passed: boolean;
+  feedback: string[];
+}
+
+export interface OverallResults {
+  totalScore: number;
+  maxScore: number;
+  percentage: number;
+  grade: string;
+  testResults: TestResult[];
+  summary: {
+    averagePrecision: number;
+    averageRecall: number;
+    averageF1: number;
+    averageIoU: number;
+    totalProcessingTime: number;
+  };
+  /** Missed versus mislabeled shapes, confusion matrix and mAP over every image */
+  detectionQuality: DetectionQuality;
+  /** How well the detection confidences predict correctness */
+  calibration: CalibrationReport;
+  /** F1 and IoU under image perturbations, when the robustness benchmark was run */
+  robustness?: RobustnessReport;
+  /** Per-image changes from a saved baseline run, when compared against one */
+  baselineComparison?: BaselineComparison;
+  /** What the scores, pass/fail and grade were measured against */
+  rubric: ScoringRubric;
+}
+
+
+export function scoreTestResult(
+  imageName: string,
+  detectionResult: DetectionResult,
+  gtShapes: GroundTruthShape[],
+  options: EvaluationOptions = {}
+): { testResult: TestResult; score: number } {
+  const evaluation = evaluateDetection(
+    detectionResult.shapes,
+    gtShapes,
+    imageName,
+    options
+  );
+  evaluation.processing_time = detectionResult.processingTime;
+
+  const { passed, feedback, score } = calculateScore(
+    evaluation,
+    detectionResult,
+    options.rubric
+  );
+  const matching = analyzeMatches(detectionResult.shapes, gtShapes, options);
+  feedback.push(describeMatching(matching));
+
+  return {
+    testResult: { imageName, detectionResult, evaluation, matching, groundTruth: gtShapes, passed, feedback },
+    score,
+  };
+}
+
+
+// "2/3 found; 1 mislabeled (pentagon as triangle); 0 missed; 1 false positive"
+export function describeMatching(matching: ImageMatching): string {
+  const { correct, mislabeled, missed, falsePositives } = matching;
+  const confusions = matching.assignment
+    .map((gt, d) => (gt >= 0 && matching.detectionLabels[d] !== matching.groundTruthLabels[gt]
+      ? `${matching.groundTruthLabels[gt]} as ${matching.detectionLabels[d]}`
+      : null))
+    .filter(Boolean);
+  const total = matching.groundTruthLabels.length;
+  const mark = mislabeled + missed + falsePositives === 0 ? "✓" : "✗";
+  return `${mark} ${correct}/${total} found; ${mislabeled} mislabeled${confusions.length ? ` (${confusions.join(", ")})` : ""}; ` +
+    `${missed} missed; ${falsePositives} false positive${falsePositives === 1 ? "" : "s"}`;
+}
+
+
+export function createErrorTestResult(imageName: string, error: unknown): TestResult {
+  return {
+    imageName,
+    detectionResult: {
+      shapes: [],
+      processingTime: 0,
+      imageWidth: 0,
+      imageHeight: 0,
+      binarization: { mode: DEFAULT_DETECTOR_OPTIONS.thresholdMode, polarity: null },
+    },
+    evaluation: {
+      precision: 0,
+      recall: 0,
+      f1_score: 0,
+      average_iou: 0,
+      center_point_accuracy: 0,
+      area_accuracy: 0,
+      confidence_calibration: 0,
+      processing_time: 0,
+    },
+    passed: false,
+    feedback: [`Error during testing: ${error}`],
+  };
+}
+
+
+export function summarizeTestResults(
+  testResults: TestResult[],
+  totalScore: number,
+  rubric: ScoringRubric = DEFAULT_RUBRIC
+): OverallResults {
+  const numTests = testResults.length;
+  const matchings = testResults.flatMap((r) => (r.matching ? [r.matching] : []));
+  const maxScore = numTests * maxRubricScore(rubric);
+  const percentage = (totalScore / maxScore) * 100;
+
+  let totalPrecision = 0;
+  let totalRecall = 0;
+  let totalF1 = 0;
+  let totalIoU = 0;
+  let totalProcessingTime = 0;
+
+  for (const { evaluation } of testResults) {
+    totalPrecision += evaluation.precision;
+    totalRecall += evaluation.recall;
+    totalF1 += evaluation.f1_score;
+    totalIoU += evaluation.average_iou;
+    totalProcessingTime += evaluation.processing_time;
+  }
+
+  return {
+    totalScore: Math.round(totalScore),
+    maxScore,
+    percentage: Math.round(percentage * 100) / 100,
+    grade: calculateGrade(percentage, rubric),
+    testResults,
+    summary: {
+      averagePrecision: totalPrecision / numTests,
+      averageRecall: totalRecall / numTests,
+      averageF1: totalF1 / numTests,
+      averageIoU: totalIoU / numTests,
+      totalProcessingTime,
+    },
+    detectionQuality: summarizeDetectionQuality(matchings),
+    calibration: summarizeCalibration(matchings),
+    rubric,
+  };
+}
+
+
+export function calculateScore(
+  evaluation: EvaluationMetrics,
+  detection: DetectionResult,
+  rubric: ScoringRubric = DEFAULT_RUBRIC
+): {
+  passed: boolean;
+  feedback: string[];
+  score: number;
+} {
+  const metrics = { ...evaluation, processing_time: detection.processingTime };
+  const feedback: string[] = [];
+  let score = 0;
+
+  for (const criterion of rubric.criteria) {
+    const result = scoreCriterion(criterion, metrics);
+    score += result.points;
+    feedback.push(result.feedback);
+  }
+
+  const passed = score >= (rubric.passMark / 100) * maxRubricScore(rubric);
+  return { passed, feedback, score };
+}
+
+export function calculateGrade(percentage: number, rubric: ScoringRubric = DEFAULT_RUBRIC): string {
+  const grade = rubric.grades.find((g) => percentage >= g.minPercentage) ?? rubric.grades[rubric.grades.length - 1];
+  return grade.grade;
+}
@@ -1,12 +1,33 @@
-import type { DetectionResult } from "./main.js";
-import { ShapeDetector } from "./main.js";
-import { evaluateDetection } from "./evaluation-utils.js";
-import type { EvaluationMetrics } from "./evaluation-utils.js";
+import type { ShapeDetector } from "./main.js";
+import { evaluateImages } from "./evaluation-engine.js";
+import { fetchImageFile, loadImageSource } from "./image-ingestion.js";
+import type { EvaluationImage } from "./evaluation-engine.js";
+import type {
+  CalibrationReport,
+  DetectionQuality,
+  GroundTruthData,
+  GroundTruthShape,
+  OverallResults,
+} from "./evaluation-utils.js";
+import type { BaselineComparison } from "./evaluation-baseline.js";
+import { escapeXml } from "./evaluation-reports.js";
+import { toHtmlReport } from "./html-report.js";
+import { describePerturbation } from "./image-perturbations.js";
+import { evaluateRobustness } from "./robustness.js";
+import type { RobustnessReport } from "./robustness.js";
+import type { ScoringRubric } from "./scoring-rubric.js";
 import { testImages, getAllTestImageNames } from "./test-images-data.js";
+import { generateScenes, scenesToGroundTruth } from "./scene-generator.js";
+import { downloadFiles } from "./ui-utils.js";
 
-let groundTruthData: any = null;
+export type { OverallResults, TestResult } from "./evaluation-utils.js";
 
-async function loadGroundTruth() {
+let groundTruthData: GroundTruthData | null = null;
+
+// Data URLs of evaluated images by name, for the HTML report's failure gallery
+const evaluatedImages = new Map<string, string>();
+
+async function loadGroundTruth(): Promise<GroundTruthData> {
   if (!groundTruthData) {
     try {
       const response = await fetch("/ground_truth.json");
@@ -16,337 +37,105 @@ async function loadGroundTruth() {
       throw error;
     }
   }
-  return groundTruthData;
+  return groundTruthData!;
 }
 
-export interface TestResult {
-  imageName: string;
-  detectionResult: DetectionResult;
-  evaluation: EvaluationMetrics;
-  passed: boolean;
-  feedback: string[];
+// Decode a data: URL through a scratch canvas, as an uploaded file would be
+async function loadDataUrl(dataUrl: string, name: string): Promise<ImageData> {
+  const file = await fetchImageFile(dataUrl, name);
+  return (await loadImageSource(file, document.createElement("canvas"))).imageData;
 }
 
-export interface OverallResults {
-  totalScore: number;
-  maxScore: number;
-  percentage: number;
-  grade: string;
-  testResults: TestResult[];
-  summary: {
-    averagePrecision: number;
-    averageRecall: number;
-    averageF1: number;
-    averageIoU: number;
-    totalProcessingTime: number;
-  };
+export interface BrowserEvaluationOptions {
+  /** Also run the robustness benchmark (every image again under each perturbation) */
+  robustness?: boolean;
+  /** Scoring rubric; by default the standard one with the ground truth's tolerance guidelines */
+  rubric?: ScoringRubric;
 }
 
-export async function runSelectedEvaluation(
+// The one path every browser evaluation takes: score, then optionally the robustness benchmark
+async function evaluateDataUrls(
   detector: ShapeDetector,
-  selectedImageNames: string[]
+  images: { name: string; dataUrl: string }[],
+  groundTruth: GroundTruthData,
+  options: BrowserEvaluationOptions
 ): Promise<OverallResults> {
-  const groundTruth = await loadGroundTruth();
-  const testResults: TestResult[] = [];
-
-  let totalPrecision = 0;
-  let totalRecall = 0;
-  let totalF1 = 0;
-  let totalIoU = 0;
-  let totalProcessingTime = 0;
-  let totalScore = 0;
-
-  for (const imageName of selectedImageNames) {
-    console.log(`Testing selected: ${imageName}`);
-
-    try {
-      const dataUrl = testImages[imageName as keyof typeof testImages];
-      const response = await fetch(dataUrl);
-      const blob = await response.blob();
-      const file = new File([blob], imageName, { type: "image/svg+xml" });
-
-      const canvas = document.createElement("canvas");
-      const tempDetector = new ShapeDetector(canvas);
-
-      const imageData = await tempDetector.loadImage(file);
-      const detectionResult = await detector.detectShapes(imageData);
-
-      const gtShapes = groundTruth.images[imageName]?.shapes || [];
-
-      // Evaluate results
-      const evaluation = evaluateDetection(
-        detectionResult.shapes,
-        gtShapes,
-        imageName
-      );
-      evaluation.processing_time = detectionResult.processingTime;
-
-      const { passed, feedback, score } = calculateScore(
-        evaluation,
-        detectionResult
-      );
-
-      totalPrecision += evaluation.precision;
-      totalRecall += evaluation.recall;
-      totalF1 += evaluation.f1_score;
-      totalIoU += evaluation.average_iou;
-      totalProcessingTime += evaluation.processing_time;
-      totalScore += score;
-
-      testResults.push({
-        imageName,
-        detectionResult,
-        evaluation,
-        passed,
-        feedback,
-      });
-    } catch (error) {
-      console.error(`Error testing ${imageName}:`, error);
-      testResults.push({
-        imageName,
-        detectionResult: {
-          shapes: [],
-          processingTime: 0,
-          imageWidth: 0,
-          imageHeight: 0,
-        },
-        evaluation: {
-          precision: 0,
-          recall: 0,
-          f1_score: 0,
-          average_iou: 0,
-          center_point_accuracy: 0,
-          area_accuracy: 0,
-          confidence_calibration: 0,
-          processing_time: 0,
-        },
-        passed: false,
-        feedback: [`Error during testing: ${error}`],
-      });
-    }
+  for (const { name, dataUrl } of images) evaluatedImages.set(name, dataUrl);
+  const sources: EvaluationImage<ImageData>[] = images.map(({ name, dataUrl }) => ({
+    name,
+    load: () => loadDataUrl(dataUrl, name),
+  }));
+  const results = await evaluateImages(sources, groundTruth, (image) => detector.detectShapes(image), {
+    rubric: options.rubric,
+    log: (message) => console.log(message),
+  });
+
+  if (options.robustness) {
+    await addRobustness(
+      results,
+      detector,
+      images.map((image) => ({ ...image, groundTruth: groundTruth.images[image.name]?.shapes || [] }))
+    );
   }
+  return results;
+}
 
-  const numTests = testResults.length;
-  const maxScore = numTests * 100;
-  const percentage = (totalScore / maxScore) * 100;
+async function addRobustness(
+  results: OverallResults,
+  detector: ShapeDetector,
+  images: { name: string; dataUrl: string; groundTruth: GroundTruthShape[] }[]
+): Promise<void> {
+  console.log("Running robustness benchmark...");
+  results.robustness = await evaluateRobustness(
+    images.map(({ name, dataUrl, groundTruth }) => ({ name, groundTruth, load: () => loadDataUrl(dataUrl, name) })),
+    (image) => detector.detectShapes(new ImageData(Uint8ClampedArray.from(image.data), image.width, image.height)),
+    { rubric: results.rubric, log: (message) => console.log(message) }
+  );
+}
 
-  const results: OverallResults = {
-    totalScore: Math.round(totalScore),
-    maxScore,
-    percentage: Math.round(percentage * 100) / 100,
-    grade: calculateGrade(percentage),
-    testResults,
-    summary: {
-      averagePrecision: totalPrecision / numTests,
-      averageRecall: totalRecall / numTests,
-      averageF1: totalF1 / numTests,
-      averageIoU: totalIoU / numTests,
-      totalProcessingTime,
-    },
-  };
+const bundledImages = (names: string[]) =>
+  names.map((name) => ({ name, dataUrl: testImages[name as keyof typeof testImages] }));
 
+export async function runSelectedEvaluation(
+  detector: ShapeDetector,
+  selectedImageNames: string[],
+  options: BrowserEvaluationOptions = {}
+): Promise<OverallResults> {
+  const results = await evaluateDataUrls(
+    detector,
+    bundledImages(selectedImageNames),
+    await loadGroundTruth(),
+    options
+  );
   console.log("Selected evaluation complete!");
   return results;
 }
 
 export async function runEvaluation(
-  detector: ShapeDetector
+  detector: ShapeDetector,
+  options: BrowserEvaluationOptions = {}
 ): Promise<OverallResults> {
-  const groundTruth = await loadGroundTruth();
-  const testResults: TestResult[] = [];
-  const imageNames = getAllTestImageNames();
-
-  let totalPrecision = 0;
-  let totalRecall = 0;
-  let totalF1 = 0;
-  let totalIoU = 0;
-  let totalProcessingTime = 0;
-  let totalScore = 0;
-
-  for (const imageName of imageNames) {
-    console.log(`Testing: ${imageName}`);
-
-    try {
-      const dataUrl = testImages[imageName as keyof typeof testImages];
-      const response = await fetch(dataUrl);
-      const blob = await response.blob();
-      const file = new File([blob], imageName, { type: "image/svg+xml" });
-
-      const canvas = document.createElement("canvas");
-      const tempDetector = new ShapeDetector(canvas);
-
-      const imageData = await tempDetector.loadImage(file);
-      const detectionResult = await detector.detectShapes(imageData);
-
-      const gtShapes = groundTruth.images[imageName]?.shapes || [];
-
-      // Evaluate results
-      const evaluation = evaluateDetection(
-        detectionResult.shapes,
-        gtShapes,
-        imageName
-      );
-      evaluation.processing_time = detectionResult.processingTime;
-
-      const { passed, feedback, score } = calculateScore(
-        evaluation,
-        detectionResult
-      );
-
-      totalPrecision += evaluation.precision;
-      totalRecall += evaluation.recall;
-      totalF1 += evaluation.f1_score;
-      totalIoU += evaluation.average_iou;
-      totalProcessingTime += evaluation.processing_time;
-      totalScore += score;
-
-      testResults.push({
-        imageName,
-        detectionResult,
-        evaluation,
-        passed,
-        feedback,
-      });
-    } catch (error) {
-      console.error(`Error testing ${imageName}:`, error);
-      testResults.push({
-        imageName,
-        detectionResult: {
-          shapes: [],
-          processingTime: 0,
-          imageWidth: 0,
-          imageHeight: 0,
-        },
-        evaluation: {
-          precision: 0,
-          recall: 0,
-          f1_score: 0,
-          average_iou: 0,
-          center_point_accuracy: 0,
-          area_accuracy: 0,
-          confidence_calibration: 0,
-          processing_time: 0,
-        },
-        passed: false,
-        feedback: [`Error during testing: ${error}`],
-      });
-    }
-  }
-
-  const numTests = testResults.length;
-  const maxScore = numTests * 100;
-  const percentage = (totalScore / maxScore) * 100;
-
-  const results: OverallResults = {
-    totalScore: Math.round(totalScore),
-    maxScore,
-    percentage: Math.round(percentage * 100) / 100,
-    grade: calculateGrade(percentage),
-    testResults,
-    summary: {
-      averagePrecision: totalPrecision / numTests,
-      averageRecall: totalRecall / numTests,
-      averageF1: totalF1 / numTests,
-      averageIoU: totalIoU / numTests,
-      totalProcessingTime,
-    },
-  };
-
+  const results = await evaluateDataUrls(
+    detector,
+    bundledImages(getAllTestImageNames()),
+    await loadGroundTruth(),
+    options
+  );
   console.log("Evaluation complete!");
   return results;
 }
 
-function calculateScore(
-  evaluation: EvaluationMetrics,
-  detection: DetectionResult
-): {
-  passed: boolean;
-  feedback: string[];
-  score: number;
-} {
-  const feedback: string[] = [];
-  let score = 0;
-
-  const f1 = evaluation.f1_score;
-  if (f1 >= 0.9) {
-    score += 40;
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  } else if (f1 >= 0.7) {
-    score += 30;
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  } else if (f1 >= 0.5) {
-    score += 20;
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  } else {
-    feedback.push(`detection accuracy (F1: ${f1.toFixed(3)})`);
-  }
-
-  const avgIoU = evaluation.average_iou;
-  if (avgIoU >= 0.8) {
-    score += 25;
-    feedback.push(`✓ Excellent localization (IoU: ${avgIoU.toFixed(3)})`);
-  } else if (avgIoU >= 0.6) {
-    score += 20;
-    feedback.push(`✓ Good localization (IoU: ${avgIoU.toFixed(3)})`);
-  } else if (avgIoU >= 0.4) {
-    score += 10;
-    feedback.push(`△ Fair localization (IoU: ${avgIoU.toFixed(3)})`);
-  } else {
-    feedback.push(`✗ Poor localization (IoU: ${avgIoU.toFixed(3)})`);
-  }
-
-  const centerAcc = evaluation.center_point_accuracy;
-  if (centerAcc <= 5) {
-    score += 15;
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  } else if (centerAcc <= 10) {
-    score += 12;
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  } else if (centerAcc <= 20) {
-    score += 8;
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  } else {
-    feedback.push(`center accuracy (${centerAcc.toFixed(1)}px error)`);
-  }
-
-  const areaAcc = evaluation.area_accuracy;
-  if (areaAcc >= 0.9) {
-    score += 10;
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  } else if (areaAcc >= 0.8) {
-    score += 8;
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  } else if (areaAcc >= 0.7) {
-    score += 5;
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  } else {
-    feedback.push(`area calculation (${(areaAcc * 100).toFixed(1)}% accuracy)`);
-  }
-
-  const processingTime = detection.processingTime;
-  if (processingTime <= 500) {
-    score += 10;
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  } else if (processingTime <= 1000) {
-    score += 8;
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  } else if (processingTime <= 2000) {
-    score += 5;
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  } else {
-    feedback.push(`performance (${processingTime.toFixed(0)}ms)`);
-  }
-
-  const passed = score >= 60;
-  return { passed, feedback, score };
-}
-
-function calculateGrade(percentage: number): string {
-  if (percentage >= 90) return "A";
-  if (percentage >= 80) return "B";
-  if (percentage >= 70) return "C";
-  if (percentage >= 60) return "D";
-  return "F";
+/** Evaluate on `count` generated scenes (seeds `seed`, `seed` + 1, ...) against their own ground truth */
+export async function runSyntheticEvaluation(
+  detector: ShapeDetector,
+  count: number,
+  seed: number,
+  options: BrowserEvaluationOptions = {}
+): Promise<OverallResults> {
+  const scenes = generateScenes(count, seed);
+  const results = await evaluateDataUrls(detector, scenes, scenesToGroundTruth(scenes), options);
+  console.log("Synthetic evaluation complete!");
+  return results;
 }
 
 export function displayEvaluationResults(
@@ -356,6 +145,7 @@ export function displayEvaluationResults(
   const html = `
     <div class="evaluation-results">
       <h2>Evaluation Results</h2>
+      <button class="download-report">Download HTML Report</button>
       <div class="summary">
         <h4>Summary Metrics:</h4>
         <ul>
@@ -370,8 +160,13 @@ export function displayEvaluationResults(
           <li>Total Processing Time: ${results.summary.totalProcessingTime.toFixed(
             0
           )}ms</li>
+          <li>Score: ${results.totalScore}/${results.maxScore} (${results.percentage}%), grade ${escapeXml(results.grade)} by the "${escapeXml(results.rubric.name)}" rubric</li>
         </ul>
       </div>
+      ${renderDetectionQuality(results.detectionQuality)}
+      ${renderCalibration(results.calibration)}
+      ${results.robustness ? renderRobustness(results.robustness) : ""}
+      ${results.baselineComparison ? renderBaselineComparison(results.baselineComparison) : ""}
       
       <div class="detailed-results">
         <h4>Detailed Results:</h4>
@@ -398,4 +193,170 @@ export function displayEvaluationResults(
   `;
 
   container.innerHTML = html;
+  container.querySelector(".download-report")?.addEventListener("click", () => downloadHtmlReport(results));
+}
+
+/** Save the standalone HTML report, with the evaluated images under the failure gallery */
+export function downloadHtmlReport(results: OverallResults): void {
+  const images = Object.fromEntries(
+    results.testResults.flatMap(({ imageName }) => {
+      const dataUrl = evaluatedImages.get(imageName);
+      return dataUrl ? [[imageName, dataUrl]] : [];
+    })
+  );
+  downloadFiles([{
+    fileName: `evaluation-report-${new Date().toISOString().slice(0, 10)}.html`,
+    mimeType: "text/html",
+    content: toHtmlReport(results, { images }),
+  }]);
+}
+
+// Missed vs mislabeled counts, per-class AP and the confusion matrix
+function renderDetectionQuality(quality: DetectionQuality): string {
+  const { labels, counts } = quality.confusionMatrix;
+  const name = (label: string) => (label === "background" ? "(none)" : label);
+  const matrix = labels.length > 1
+    ? `
+      <table class="confusion-matrix">
+        <caption>Confusion matrix (rows: actual, columns: detected)</caption>
+        <tr><th></th>${labels.map((label) => `<th>${name(label)}</th>`).join("")}</tr>
+        ${counts
+          .map(
+            (row, i) => `<tr><th>${name(labels[i])}</th>${row
+              .map((n, j) => `<td class="${n && i !== j ? "off-diagonal" : ""}">${n || ""}</td>`)
+              .join("")}</tr>`
+          )
+          .join("")}
+      </table>`
+    : "";
+
+  return `
+    <div class="summary">
+      <h4>Detection Quality:</h4>
+      <ul>
+        <li>Correct: ${quality.correct}, mislabeled: ${quality.mislabeled}</li>
+        <li>Missed: ${quality.missed}, false positives: ${quality.falsePositives}</li>
+        <li>mAP@0.5:0.95: ${quality.mAP.toFixed(3)}, mAP@0.5: ${quality.mAP50.toFixed(3)}</li>
+        ${quality.classAP
+          .map((c) => `<li>AP ${c.label} (${c.groundTruth}): ${c.ap.toFixed(3)} (AP50 ${c.ap50.toFixed(2)})</li>`)
+          .join("")}
+      </ul>
+      ${matrix}
+    </div>
+  `;
+}
+
+// Reliability diagram: per confidence bin, a bar of accuracy with a tick at the mean confidence
+function renderCalibration(report: CalibrationReport): string {
+  const rows = report.bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => `
+      <tr>
+        <th>${bin.lower.toFixed(1)}–${bin.upper.toFixed(1)}</th>
+        <td>${bin.count}</td>
+        <td class="reliability-bar">
+          <span class="accuracy" style="width: ${(bin.accuracy * 100).toFixed(1)}%"></span>
+          <span class="confidence" style="left: ${(bin.meanConfidence * 100).toFixed(1)}%"></span>
+        </td>
+        <td>${(bin.accuracy * 100).toFixed(0)}% vs ${(bin.meanConfidence * 100).toFixed(0)}%</td>
+      </tr>`)
+    .join("");
+
+  return `
+    <div class="summary">
+      <h4>Confidence Calibration:</h4>
+      <ul>
+        <li>Expected calibration error: ${report.ece.toFixed(3)} (max ${report.mce.toFixed(3)}) over ${report.detections} detections</li>
+      </ul>
+      ${rows ? `
+      <table class="reliability-diagram">
+        <caption>Reliability diagram (bar: accuracy, tick: mean confidence)</caption>
+        <tr><th>Confidence</th><th>N</th><th></th><th>Accuracy vs confidence</th></tr>
+        ${rows}
+      </table>` : ""}
+    </div>
+  `;
+}
+
+// Per perturbation level: F1 as a bar, with the change from the clean images
+function renderRobustness(report: RobustnessReport): string {
+  const { baseline } = report;
+  const change = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(3)}`;
+  const rows = report.curves
+    .flatMap((curve) =>
+      curve.levels.map((level, i) => `
+      <tr>
+        <th>${i === 0 ? curve.kind : ""}</th>
+        <td>${describePerturbation({ kind: curve.kind, strength: level.strength })}</td>
+        <td class="reliability-bar"><span class="accuracy" style="width: ${(level.averageF1 * 100).toFixed(1)}%"></span></td>
+        <td>F1 ${level.averageF1.toFixed(3)} (${change(level.f1Change)})</td>
+        <td>IoU ${level.averageIoU.toFixed(3)} (${change(level.iouChange)})</td>
+      </tr>`)
+    )
+    .join("");
+
+  return `
+    <div class="summary">
+      <h4>Robustness:</h4>
+      <ul>
+        <li>Clean images: F1 ${baseline.averageF1.toFixed(3)}, IoU ${baseline.averageIoU.toFixed(3)} over ${report.images} images</li>
+      </ul>
+      <table class="reliability-diagram">
+        <caption>F1 and IoU under each perturbation (change from the clean images)</caption>
+        ${rows}
+      </table>
+    </div>
+  `;
+}
+
+// Per-image deltas from the baseline; worse cells are marked, flips and newly failing images listed
+function renderBaselineComparison(comparison: BaselineComparison): string {
+  const change = (value: number, digits = 3) => {
+    const rounded = Number(value.toFixed(digits));
+    return `${rounded >= 0 ? "+" : "-"}${Math.abs(rounded).toFixed(digits)}`;
+  };
+  // Higher is better for everything but center error and time
+  const cell = (value: number, text: string, worse: boolean) =>
+    `<td class="${worse ? "regressed" : value !== 0 ? "improved" : ""}">${text}</td>`;
+  const status = (passed: boolean) => (passed ? "✓" : "x");
+  const rows = comparison.images
+    .map((image) => `
+      <tr>
+        <th>${image.imageName}</th>
+        ${cell(image.precision.change, change(image.precision.change), image.precision.change < 0)}
+        ${cell(image.recall.change, change(image.recall.change), image.recall.change < 0)}
+        ${cell(image.iou.change, change(image.iou.change), image.iou.change < -0.01)}
+        ${cell(-image.centerError.change, `${change(image.centerError.change, 1)}px`, image.centerError.change > 1)}
+        <td>${change(image.processingTime.change, 0)}ms</td>
+        ${cell(
+          Number(image.passedAfter) - Number(image.passedBefore),
+          `${status(image.passedBefore)} → ${status(image.passedAfter)}`,
+          image.passedBefore && !image.passedAfter
+        )}
+      </tr>`)
+    .join("");
+
+  return `
+    <div class="summary">
+      <h4>Compared with Baseline "${escapeXml(comparison.baselineName)}":</h4>
+      <ul>
+        <li>Saved ${new Date(comparison.baselineCreatedAt).toLocaleString()}</li>
+        <li>Grade ${comparison.grade.before} → ${comparison.grade.after}, score ${change(comparison.percentage.change, 1)}%</li>
+        <li>Average F1 ${change(comparison.averageF1.change)}, average IoU ${change(comparison.averageIoU.change)}</li>
+        ${comparison.newlyFailing.length ? `<li class="regressed">Newly failing: ${comparison.newlyFailing.join(", ")}</li>` : ""}
+        ${comparison.newlyPassing.length ? `<li>Newly passing: ${comparison.newlyPassing.join(", ")}</li>` : ""}
+        ${comparison.flippedShapes
+          .map((flip) => `<li class="regressed">${flip.imageName}: shape at (${flip.center.x.toFixed(0)}, ${flip.center.y.toFixed(0)}) changed from ${flip.before} to ${flip.after}</li>`)
+          .join("")}
+        ${comparison.addedImages.length ? `<li>Not in baseline: ${comparison.addedImages.join(", ")}</li>` : ""}
+        ${comparison.removedImages.length ? `<li>Missing from this run: ${comparison.removedImages.join(", ")}</li>` : ""}
+      </ul>
+      ${rows ? `
+      <table class="baseline-diff">
+        <caption>Change per image (red: worse than the baseline)</caption>
+        <tr><th>Image</th><th>Precision</th><th>Recall</th><th>IoU</th><th>Center error</th><th>Time</th><th>Passed</th></tr>
+        ${rows}
+      </table>` : ""}
+    </div>
+  `;
 }
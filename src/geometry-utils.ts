@@ -0,0 +1,423 @@
+import type { Point } from "./detection-core.js";
+import { polygonArea } from "./contour-utils.js";
+
+export interface OrientedBoundingBox {
+  center: Point;
+  /** Length of the longer side */
+  width: number;
+  /** Length of the shorter side */
+  height: number;
+  /** Direction of the `width` side in degrees, in (-90, 90], clockwise in image coordinates */
+  angle: number;
+}
+
+export interface EllipseFit {
+  center: Point;
+  semiMajor: number;
+  semiMinor: number;
+  /** Direction of the major axis in degrees, in (-90, 90] */
+  angle: number;
+}
+
+/** Raw pixel moments of a region: its pixel count and Σx, Σy, Σx², Σy², Σxy */
+export interface PixelMoments {
+  count: number;
+  sumX: number;
+  sumY: number;
+  sumXX: number;
+  sumYY: number;
+  sumXY: number;
+}
+
+/**
+ * Ellipse with the same first and second moments as a set of pixels: for a
+ * filled ellipse the semi-axes are twice the square roots of the covariance
+ * eigenvalues.
+ */
+export function fitEllipseFromMoments(moments: PixelMoments): EllipseFit {
+  const n = Math.max(1, moments.count);
+  const mx = moments.sumX / n, my = moments.sumY / n;
+  const cxx = Math.max(0, moments.sumXX / n - mx * mx);
+  const cyy = Math.max(0, moments.sumYY / n - my * my);
+  const cxy = moments.sumXY / n - mx * my;
+
+  const half = (cxx + cyy) / 2;
+  const spread = Math.sqrt(Math.max(0, ((cxx - cyy) / 2) ** 2 + cxy * cxy));
+  return {
+    center: { x: mx, y: my },
+    semiMajor: 2 * Math.sqrt(half + spread),
+    semiMinor: 2 * Math.sqrt(Math.max(0, half - spread)),
+    angle: normalizeAngle((0.5 * Math.atan2(2 * cxy, cxx - cyy) * 180) / Math.PI, 180),
+  };
+}
+
+/**
+ * Direct least-squares ellipse through boundary points (Fitzgibbon's
+ * method in the numerically stable form of Halíř and Flusser). Unlike the
+ * moment fit this only needs part of the outline, so it recovers a shape
+ * whose boundary is partly hidden. Returns null when the points do not
+ * determine an ellipse.
+ */
+export function fitEllipseToPoints(points: Point[]): EllipseFit | null {
+  if (points.length < 6) return null;
+
+  // Center and scale the points to keep the scatter matrices well conditioned
+  let mx = 0, my = 0;
+  for (const p of points) {
+    mx += p.x;
+    my += p.y;
+  }
+  mx /= points.length;
+  my /= points.length;
+  let spread = 0;
+  for (const p of points) spread += (p.x - mx) ** 2 + (p.y - my) ** 2;
+  const scale = Math.sqrt(spread / points.length) || 1;
+
+  // Scatter matrices of the quadratic [x², xy, y²] and linear [x, y, 1] terms
+  const s1 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const s2 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const s3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (const p of points) {
+    const x = (p.x - mx) / scale, y = (p.y - my) / scale;
+    const quadratic = [x * x, x * y, y * y], linear = [x, y, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        s1[i][j] += quadratic[i] * quadratic[j];
+        s2[i][j] += quadratic[i] * linear[j];
+        s3[i][j] += linear[i] * linear[j];
+      }
+    }
+  }
+
+  const s3Inverse = invert3(s3);
+  if (!s3Inverse) return null;
+  // Linear coefficients as a function of the quadratic ones: t = -S3⁻¹ S2ᵀ
+  const t = multiply3(s3Inverse, transpose3(s2)).map(row => row.map(v => -v));
+  const reduced = s1.map((row, i) => row.map((v, j) => v + multiply3(s2, t)[i][j]));
+  // Premultiply by the inverse of the constraint matrix for 4ac − b² = 1
+  const m = [
+    reduced[2].map(v => v / 2),
+    reduced[1].map(v => -v),
+    reduced[0].map(v => v / 2),
+  ];
+
+  let best: number[] | null = null;
+  for (const lambda of realEigenvalues3(m)) {
+    const v = nullVector3(m.map((row, i) => row.map((x, j) => x - (i === j ? lambda : 0))));
+    if (v && 4 * v[0] * v[2] - v[1] * v[1] > 0) {
+      best = v;
+      break;
+    }
+  }
+  if (!best) return null;
+
+  const [a, b, c] = best;
+  const [d, e, f] = t.map(row => row[0] * a + row[1] * b + row[2] * c);
+  const det = b * b - 4 * a * c;
+  const x0 = (2 * c * d - b * e) / det, y0 = (2 * a * e - b * d) / det;
+  const level = a * x0 * x0 + b * x0 * y0 + c * y0 * y0 + d * x0 + e * y0 + f;
+  const mean = (a + c) / 2, half = Math.hypot((a - c) / 2, b / 2);
+  const small = mean - half, large = mean + half;
+  if (small * level >= 0 || large * level >= 0) return null;
+
+  return {
+    center: { x: mx + x0 * scale, y: my + y0 * scale },
+    semiMajor: Math.sqrt(-level / small) * scale,
+    semiMinor: Math.sqrt(-level / large) * scale,
+    angle: normalizeAngle((0.5 * Math.atan2(b, a - c) * 180) / Math.PI + 90, 180),
+  };
+}
+
+function transpose3(m: number[][]): number[][] {
+  return m[0].map((_, j) => m.map(row => row[j]));
+}
+
+function multiply3(a: number[][], b: number[][]): number[][] {
+  return a.map(row => b[0].map((_, j) => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j]));
+}
+
+function cross3(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function invert3(m: number[][]): number[][] | null {
+  const cofactors = [cross3(m[1], m[2]), cross3(m[2], m[0]), cross3(m[0], m[1])];
+  const det = m[0][0] * cofactors[0][0] + m[0][1] * cofactors[0][1] + m[0][2] * cofactors[0][2];
+  if (Math.abs(det) < 1e-12) return null;
+  return transpose3(cofactors).map(row => row.map(v => v / det));
+}
+
+// Real roots of the characteristic polynomial λ³ − tr·λ² + c·λ − det
+function realEigenvalues3(m: number[][]): number[] {
+  const trace = m[0][0] + m[1][1] + m[2][2];
+  const minors =
+    m[0][0] * m[1][1] - m[0][1] * m[1][0] +
+    m[0][0] * m[2][2] - m[0][2] * m[2][0] +
+    m[1][1] * m[2][2] - m[1][2] * m[2][1];
+  const det = m[0][0] * cross3(m[1], m[2])[0] + m[0][1] * cross3(m[1], m[2])[1] + m[0][2] * cross3(m[1], m[2])[2];
+
+  // Depressed cubic t³ + pt + q with λ = t + tr/3
+  const shift = trace / 3;
+  const p = minors - (trace * trace) / 3;
+  const q = -det + (trace * minors) / 3 - (2 * trace ** 3) / 27;
+  const discriminant = (q / 2) ** 2 + (p / 3) ** 3;
+  if (discriminant > 0) {
+    const root = Math.cbrt(-q / 2 + Math.sqrt(discriminant)) + Math.cbrt(-q / 2 - Math.sqrt(discriminant));
+    return [root + shift];
+  }
+  const r = 2 * Math.sqrt(Math.max(0, -p / 3));
+  const phi = r > 0 ? Math.acos(Math.max(-1, Math.min(1, (3 * q) / (p * r)))) / 3 : 0;
+  return [0, 1, 2].map(k => r * Math.cos(phi - (2 * Math.PI * k) / 3) + shift);
+}
+
+// A non-zero vector v with m·v ≈ 0, for a (near-)singular 3×3 matrix
+function nullVector3(m: number[][]): number[] | null {
+  const candidates = [cross3(m[0], m[1]), cross3(m[1], m[2]), cross3(m[2], m[0])];
+  let best = candidates[0], bestNorm = 0;
+  for (const v of candidates) {
+    const norm = Math.hypot(v[0], v[1], v[2]);
+    if (norm > bestNorm) {
+      bestNorm = norm;
+      best = v;
+    }
+  }
+  return bestNorm > 1e-12 ? best.map(v => v / bestNorm) : null;
+}
+
+/**
+ * Mean relative distance of contour points from an ellipse, after allowing
+ * half a pixel of digitization error. Close to 0 for circles and ellipses,
+ * clearly positive for polygons.
+ */
+export function ellipseResidual(contour: Point[], ellipse: EllipseFit): number {
+  const { center, semiMajor, semiMinor } = ellipse;
+  if (contour.length === 0 || semiMinor <= 0) return Infinity;
+  const rad = (ellipse.angle * Math.PI) / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+
+  let total = 0;
+  for (const p of contour) {
+    const dx = p.x - center.x, dy = p.y - center.y;
+    const u = dx * cos + dy * sin, v = -dx * sin + dy * cos;
+    total += Math.abs(Math.hypot(u / semiMajor, v / semiMinor) - 1);
+  }
+  const pixelAllowance = 0.5 / Math.sqrt(semiMajor * semiMinor);
+  return Math.max(0, total / contour.length - pixelAllowance);
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// Andrew's monotone chain; returns the hull without collinear points
+export function convexHull(points: Point[]): Point[] {
+  const sorted = points
+    .slice()
+    .sort((a, b) => (a.x === b.x ? a.y - b.y : a.x - b.x));
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+export function normalizeAngle(degrees: number, period: number): number {
+  // Map into (-period/2, period/2]
+  let a = ((degrees % period) + period) % period;
+  if (a > period / 2) a -= period;
+  return a;
+}
+
+/**
+ * Minimum-area enclosing rectangle via rotating calipers: the optimal
+ * rectangle has one side collinear with a convex hull edge.
+ */
+export function minAreaRect(points: Point[]): OrientedBoundingBox {
+  const hull = convexHull(points);
+  if (hull.length === 0) return { center: { x: 0, y: 0 }, width: 0, height: 0, angle: 0 };
+  if (hull.length < 3) {
+    const [a, b = a] = hull;
+    return {
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      width: Math.hypot(b.x - a.x, b.y - a.y),
+      height: 0,
+      angle: normalizeAngle((Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI, 180),
+    };
+  }
+
+  let best: OrientedBoundingBox | null = null;
+  let bestArea = Infinity;
+
+  for (let i = 0; i < hull.length; i++) {
+    const a = hull[i], b = hull[(i + 1) % hull.length];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len === 0) continue;
+    const ux = (b.x - a.x) / len, uy = (b.y - a.y) / len;
+
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const p of hull) {
+      const u = p.x * ux + p.y * uy;
+      const v = -p.x * uy + p.y * ux;
+      minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+    }
+
+    const area = (maxU - minU) * (maxV - minV);
+    if (area < bestArea) {
+      bestArea = area;
+      const cu = (minU + maxU) / 2, cv = (minV + maxV) / 2;
+      let width = maxU - minU, height = maxV - minV;
+      let angle = (Math.atan2(uy, ux) * 180) / Math.PI;
+      if (height > width) {
+        [width, height] = [height, width];
+        angle += 90;
+      }
+      best = {
+        center: { x: cu * ux - cv * uy, y: cu * uy + cv * ux },
+        width,
+        height,
+        angle: normalizeAngle(angle, 180),
+      };
+    }
+  }
+
+  return best!;
+}
+
+export function orientedBoxCorners(box: OrientedBoundingBox): Point[] {
+  const rad = (box.angle * Math.PI) / 180;
+  const ux = Math.cos(rad), uy = Math.sin(rad);
+  const hw = box.width / 2, hh = box.height / 2;
+  return [
+    { x: box.center.x - ux * hw + uy * hh, y: box.center.y - uy * hw - ux * hh },
+    { x: box.center.x + ux * hw + uy * hh, y: box.center.y + uy * hw - ux * hh },
+    { x: box.center.x + ux * hw - uy * hh, y: box.center.y + uy * hw + ux * hh },
+    { x: box.center.x - ux * hw - uy * hh, y: box.center.y - uy * hw + ux * hh },
+  ];
+}
+
+export function polygonCentroid(points: Point[]): Point {
+  const area = polygonArea(points);
+  if (Math.abs(area) < 1e-9) {
+    const n = Math.max(1, points.length);
+    return {
+      x: points.reduce((s, p) => s + p.x, 0) / n,
+      y: points.reduce((s, p) => s + p.y, 0) / n,
+    };
+  }
+  let cx = 0, cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    const f = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * f;
+    cy += (a.y + b.y) * f;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+/**
+ * Canonical rotation in degrees: 0 means "upright" (a rectangle's long side
+ * horizontal, a polygon or star with a vertex pointing straight up), reduced
+ * modulo the shape's rotational symmetry. Circles always report 0; ellipses
+ * use their major axis (see `fitEllipseFromMoments`) instead. `isSquare`
+ * is the rectangle's square classification, which gives it 90° symmetry.
+ */
+export function canonicalRotation(
+  type: string,
+  vertices: Point[],
+  box: OrientedBoundingBox,
+  isSquare = false
+): number {
+  if (type === "circle") return 0;
+  if (type === "rectangle") return normalizeAngle(box.angle, isSquare ? 90 : 180);
+  if (vertices.length < 3) return 0;
+
+  // Stars alternate outer and inner vertices, so their symmetry is half the vertex count
+  const order = type === "star" ? Math.max(1, Math.round(vertices.length / 2)) : vertices.length;
+  const centroid = polygonCentroid(vertices);
+  let apex = vertices[0], apexDist = -1;
+  for (const v of vertices) {
+    const d = Math.hypot(v.x - centroid.x, v.y - centroid.y);
+    if (d > apexDist) {
+      apexDist = d;
+      apex = v;
+    }
+  }
+  const apexAngle = (Math.atan2(apex.y - centroid.y, apex.x - centroid.x) * 180) / Math.PI;
+  return normalizeAngle(apexAngle + 90, 360 / order);
+}
+
+// Sutherland–Hodgman clip of a polygon against a convex, counter-clockwise-or-clockwise clipper
+function clipConvex(subject: Point[], clipper: Point[]): Point[] {
+  const orientation = Math.sign(polygonArea(clipper)) || 1;
+  let output = subject;
+  for (let i = 0; i < clipper.length && output.length; i++) {
+    const a = clipper[i], b = clipper[(i + 1) % clipper.length];
+    const inside = (p: Point) => cross(a, b, p) * orientation >= 0;
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const p = input[j], q = input[(j + 1) % input.length];
+      const pIn = inside(p), qIn = inside(q);
+      if (pIn) output.push(p);
+      if (pIn !== qIn) {
+        const denom = (p.x - q.x) * (a.y - b.y) - (p.y - q.y) * (a.x - b.x);
+        if (denom !== 0) {
+          const t = ((p.x - a.x) * (a.y - b.y) - (p.y - a.y) * (a.x - b.x)) / denom;
+          output.push({ x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) });
+        }
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Exact intersection area of two simple (possibly concave) polygons.
+ * Each polygon is decomposed into signed fan triangles from its first
+ * vertex, whose signed indicator functions sum to the polygon's, so the
+ * overlap is the signed sum of pairwise convex triangle intersections.
+ */
+export function polygonIntersectionArea(a: Point[], b: Point[]): number {
+  if (a.length < 3 || b.length < 3) return 0;
+  const fan = (poly: Point[]) => {
+    const tris: { tri: Point[]; sign: number }[] = [];
+    for (let i = 1; i < poly.length - 1; i++) {
+      const tri = [poly[0], poly[i], poly[i + 1]];
+      const area = polygonArea(tri);
+      if (Math.abs(area) > 1e-12) tris.push({ tri, sign: Math.sign(area) });
+    }
+    return tris;
+  };
+  const fanA = fan(a), fanB = fan(b);
+  const signA = Math.sign(polygonArea(a)) || 1, signB = Math.sign(polygonArea(b)) || 1;
+
+  let total = 0;
+  for (const ta of fanA) {
+    for (const tb of fanB) {
+      const clipped = clipConvex(ta.tri, tb.tri);
+      if (clipped.length >= 3) total += ta.sign * tb.sign * Math.abs(polygonArea(clipped));
+    }
+  }
+  return Math.max(0, total * signA * signB);
+}
+
+export function polygonIoU(a: Point[], b: Point[]): number {
+  const areaA = Math.abs(polygonArea(a)), areaB = Math.abs(polygonArea(b));
+  const intersection = polygonIntersectionArea(a, b);
+  const union = areaA + areaB - intersection;
+  return union > 0 ? intersection / union : 0;
+}
@@ -0,0 +1,293 @@
+import type { DetectedShape } from "./detection-core.js";
+import {
+  describeMatching,
+  detectionPolygon,
+  groundTruthPolygon,
+  summarizeShapeTypes,
+} from "./evaluation-utils.js";
+import type { GroundTruthShape, OverallResults, TestResult } from "./evaluation-utils.js";
+import {
+  escapeXml,
+  formatBaselineComparison,
+  formatCalibration,
+  formatRobustness,
+} from "./evaluation-reports.js";
+
+// A standalone HTML page for an evaluation run: no scripts or styles from outside
+
+export interface HtmlReportOptions {
+  title?: string;
+  /** Image data URLs by image name, drawn under the failure gallery overlays */
+  images?: Record<string, string>;
+  generatedAt?: string;
+}
+
+/** Overlay colors in the failure gallery */
+export const GALLERY_COLORS = {
+  matched: "#16a34a",
+  mislabeled: "#d97706",
+  falsePositive: "#dc2626",
+  missed: "#2563eb",
+} as const;
+
+/** The images the failure gallery shows: failed, or with any missed, mislabeled or spurious shape */
+export function galleryResults(results: OverallResults): TestResult[] {
+  return results.testResults.filter(
+    (r) => !r.passed || !r.matching || r.matching.mislabeled + r.matching.missed + r.matching.falsePositives > 0
+  );
+}
+
+export function toHtmlReport(results: OverallResults, options: HtmlReportOptions = {}): string {
+  const title = options.title ?? "Shape detector evaluation";
+  const generatedAt = options.generatedAt ?? new Date().toISOString();
+  const { summary } = results;
+  const gallery = galleryResults(results);
+  const extras = [
+    formatCalibration(results.calibration),
+    ...(results.robustness ? [formatRobustness(results.robustness)] : []),
+    ...(results.baselineComparison ? [formatBaselineComparison(results.baselineComparison)] : []),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p class="meta">Generated ${escapeXml(generatedAt)} · rubric "${escapeXml(results.rubric.name)}" (pass mark ${results.rubric.passMark}%)</p>
+
+<section>
+<h2>Summary</h2>
+<p class="grade">Grade ${escapeXml(results.grade)} · ${results.totalScore}/${results.maxScore} (${results.percentage}%)</p>
+<ul>
+  <li>${results.testResults.filter((r) => r.passed).length} of ${results.testResults.length} images passed</li>
+  <li>Average precision ${percent(summary.averagePrecision)}, recall ${percent(summary.averageRecall)}, F1 ${summary.averageF1.toFixed(3)}</li>
+  <li>Average IoU ${summary.averageIoU.toFixed(3)}; mAP@0.5:0.95 ${results.detectionQuality.mAP.toFixed(3)}, mAP@0.5 ${results.detectionQuality.mAP50.toFixed(3)}</li>
+  <li>Total processing time ${summary.totalProcessingTime.toFixed(0)}ms</li>
+</ul>
+</section>
+
+${renderShapeTypes(results)}
+
+${renderImageTable(results.testResults)}
+
+<section>
+<h2>Failure Gallery</h2>
+${gallery.length
+    ? `<p class="legend">${legendItem("matched", "correct")}${legendItem("mislabeled", "wrong label")}${legendItem("falsePositive", "false positive")}${legendItem("missed", "missed ground truth", true)}</p>
+<div class="gallery">
+${gallery.map((result) => renderGalleryItem(result, options.images?.[result.imageName])).join("\n")}
+</div>`
+    : "<p>Every image was detected without mistakes.</p>"}
+</section>
+
+<section>
+<h2>More</h2>
+${extras.map((text) => `<pre>${escapeXml(text)}</pre>`).join("\n")}
+</section>
+
+<script>${SORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+// Counts and precision/recall per class, AP alongside, then the confusion matrix
+function renderShapeTypes(results: OverallResults): string {
+  const matchings = results.testResults.flatMap((r) => (r.matching ? [r.matching] : []));
+  const types = summarizeShapeTypes(matchings);
+  const ap = new Map(results.detectionQuality.classAP.map((c) => [c.label, c]));
+  const { labels, counts } = results.detectionQuality.confusionMatrix;
+  const name = (label: string) => (label === "background" ? "(none)" : escapeXml(label));
+
+  return `<section>
+<h2>By Shape Type</h2>
+<table class="sortable">
+<thead><tr><th>Type</th><th>Ground truth</th><th>Detected</th><th>Correct</th><th>Mislabeled</th><th>Missed</th><th>False positives</th><th>Precision</th><th>Recall</th><th>AP</th><th>AP50</th></tr></thead>
+<tbody>
+${types
+    .map((t) => {
+      const classAP = ap.get(t.label);
+      return `<tr>${cell(t.label)}${cell(t.groundTruth)}${cell(t.detected)}${cell(t.correct)}${cell(t.mislabeled)}${cell(t.missed)}${cell(t.falsePositives)}${cell(t.precision, percent(t.precision))}${cell(t.recall, percent(t.recall))}${classAP ? cell(classAP.ap, classAP.ap.toFixed(3)) + cell(classAP.ap50, classAP.ap50.toFixed(2)) : cell("", "") + cell("", "")}</tr>`;
+    })
+    .join("\n")}
+</tbody>
+</table>
+${labels.length > 1
+    ? `<table class="matrix">
+<caption>Confusion matrix (rows: actual, columns: detected)</caption>
+<tr><th></th>${labels.map((label) => `<th>${name(label)}</th>`).join("")}</tr>
+${counts
+        .map((row, i) => `<tr><th>${name(labels[i])}</th>${row
+          .map((n, j) => `<td class="${n && i !== j ? "off" : ""}">${n || ""}</td>`)
+          .join("")}</tr>`)
+        .join("\n")}
+</table>`
+    : ""}
+</section>`;
+}
+
+function renderImageTable(testResults: TestResult[]): string {
+  return `<section>
+<h2>Per Image</h2>
+<p class="hint">Click a column heading to sort.</p>
+<table class="sortable">
+<thead><tr><th>Image</th><th>Shapes</th><th>Precision</th><th>Recall</th><th>F1</th><th>IoU</th><th>Center error</th><th>Area accuracy</th><th>Time</th><th>Result</th></tr></thead>
+<tbody>
+${testResults
+    .map(({ imageName, detectionResult, evaluation: e, passed }) =>
+      `<tr class="${passed ? "pass" : "fail"}">${cell(imageName)}${cell(detectionResult.shapes.length)}` +
+      `${cell(e.precision, percent(e.precision))}${cell(e.recall, percent(e.recall))}` +
+      `${cell(e.f1_score, e.f1_score.toFixed(3))}${cell(e.average_iou, e.average_iou.toFixed(3))}` +
+      `${cell(e.center_point_accuracy, `${e.center_point_accuracy.toFixed(1)}px`)}${cell(e.area_accuracy, percent(e.area_accuracy))}` +
+      `${cell(detectionResult.processingTime, `${detectionResult.processingTime.toFixed(0)}ms`)}${cell(passed ? 1 : 0, passed ? "PASS" : "FAIL")}</tr>`
+    )
+    .join("\n")}
+</tbody>
+</table>
+</section>`;
+}
+
+// The image with every detection and missed ground-truth shape outlined in its gallery color
+function renderGalleryItem(result: TestResult, imageUrl: string | undefined): string {
+  const { imageName, detectionResult, matching, groundTruth = [] } = result;
+  const caption = `<figcaption><strong>${escapeXml(imageName)}</strong> ${result.passed ? "PASS" : "FAIL"}<br>${escapeXml(
+    matching ? describeMatching(matching) : result.feedback.join("; ")
+  )}</figcaption>`;
+  const { imageWidth: width, imageHeight: height } = detectionResult;
+  if (!matching || !width || !height) return `<figure class="error">${caption}</figure>`;
+
+  const fontSize = Math.max(10, Math.round(Math.max(width, height) / 40));
+  const shapes: string[] = [];
+  detectionResult.shapes.forEach((shape, d) => {
+    const gt = matching.assignment[d];
+    const label = matching.detectionLabels[d];
+    const kind = gt < 0 ? "falsePositive" : label === matching.groundTruthLabels[gt] ? "matched" : "mislabeled";
+    const text = kind === "mislabeled" ? `${label} (is ${matching.groundTruthLabels[gt]})` : label;
+    shapes.push(overlay(detectionOutline(shape), shape.boundingBox, GALLERY_COLORS[kind], text, fontSize));
+  });
+  groundTruth.forEach((gtShape, gt) => {
+    if (matching.assignment.includes(gt)) return;
+    const box = gtShape.bounding_box ?? { x: 0, y: 0, width: 0, height: 0 };
+    shapes.push(overlay(groundTruthOutline(gtShape), box, GALLERY_COLORS.missed, `missed ${matching.groundTruthLabels[gt]}`, fontSize, true));
+  });
+
+  return `<figure>
+<svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img" aria-label="${escapeXml(imageName)}">
+${imageUrl ? `<image href="${escapeXml(imageUrl)}" width="${width}" height="${height}"/>` : `<rect width="${width}" height="${height}" fill="#f3f4f6"/>`}
+${shapes.join("\n")}
+</svg>
+${caption}
+</figure>`;
+}
+
+function overlay(
+  outline: string,
+  box: { x: number; y: number },
+  color: string,
+  text: string,
+  fontSize: number,
+  dashed = false
+): string {
+  const stroke = `fill="none" stroke="${color}" stroke-width="2" vector-effect="non-scaling-stroke"${dashed ? ` stroke-dasharray="6 4"` : ""}`;
+  const y = Math.max(fontSize, box.y - 3);
+  return `<g>${outline.replace("/>", ` ${stroke}/>`)}<text x="${round(box.x)}" y="${round(y)}" font-size="${fontSize}" fill="${color}" paint-order="stroke" stroke="#fff" stroke-width="3">${escapeXml(text)}</text></g>`;
+}
+
+function detectionOutline(shape: DetectedShape): string {
+  if ((shape.type === "circle" || shape.type === "ellipse") && shape.orientedBoundingBox) {
+    const { center, width, height, angle } = shape.orientedBoundingBox;
+    return ellipse(center.x, center.y, width / 2, height / 2, angle);
+  }
+  const polygon = detectionPolygon(shape);
+  return polygon ? polygonElement(polygon) : rect(shape.boundingBox);
+}
+
+function groundTruthOutline(gtShape: GroundTruthShape): string {
+  const box = gtShape.bounding_box;
+  const center = gtShape.center ?? (box ? { x: box.x + box.width / 2, y: box.y + box.height / 2 } : null);
+  if (gtShape.type === "circle" && center) {
+    const r = gtShape.radius ?? (box ? Math.min(box.width, box.height) / 2 : 0);
+    return ellipse(center.x, center.y, r, r, 0);
+  }
+  if (gtShape.type === "ellipse" && center) {
+    const rx = gtShape.radius_x ?? (box ? box.width / 2 : 0);
+    const ry = gtShape.radius_y ?? (box ? box.height / 2 : 0);
+    return ellipse(center.x, center.y, rx, ry, gtShape.angle_degrees ?? 0);
+  }
+  const polygon = groundTruthPolygon(gtShape);
+  if (polygon) return polygonElement(polygon);
+  return box ? rect(box) : "";
+}
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number, angle: number) =>
+  `<ellipse cx="${round(cx)}" cy="${round(cy)}" rx="${round(rx)}" ry="${round(ry)}"${angle ? ` transform="rotate(${round(angle)} ${round(cx)} ${round(cy)})"` : ""}/>`;
+
+const polygonElement = (points: { x: number; y: number }[]) =>
+  `<polygon points="${points.map((p) => `${round(p.x)},${round(p.y)}`).join(" ")}"/>`;
+
+const rect = (box: { x: number; y: number; width: number; height: number }) =>
+  `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}"/>`;
+
+// Table cell that sorts by `value` and shows `text`
+function cell(value: string | number, text: string | number = value): string {
+  return `<td data-value="${escapeXml(String(value))}">${escapeXml(String(text))}</td>`;
+}
+
+function legendItem(kind: keyof typeof GALLERY_COLORS, text: string, dashed = false): string {
+  return `<span><i style="border-color: ${GALLERY_COLORS[kind]}; border-style: ${dashed ? "dashed" : "solid"}"></i>${text}</span>`;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const REPORT_CSS = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 72rem; padding: 0 1rem; color: #111827; }
+h1 { margin-bottom: 0.25rem; }
+.meta, .hint { color: #6b7280; font-size: 0.875rem; }
+.grade { font-size: 1.25rem; font-weight: 600; }
+table { border-collapse: collapse; font-size: 0.875rem; margin: 0.5rem 0 1rem; }
+th, td { padding: 0.25rem 0.6rem; border-bottom: 1px solid #e5e7eb; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+.sortable th { cursor: pointer; user-select: none; background: #f9fafb; }
+.sortable th[data-order="asc"]::after { content: " ▲"; }
+.sortable th[data-order="desc"]::after { content: " ▼"; }
+tr.fail td:last-child { color: #dc2626; font-weight: 600; }
+tr.pass td:last-child { color: #16a34a; }
+.matrix td, .matrix th { text-align: center; border: 1px solid #e5e7eb; }
+.matrix td.off { background: #fee2e2; }
+.matrix caption { text-align: left; color: #6b7280; }
+.legend span { margin-right: 1.25rem; font-size: 0.875rem; }
+.legend i { display: inline-block; width: 1.25rem; height: 0.75rem; border-width: 2px; margin-right: 0.35rem; vertical-align: middle; }
+.gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(20rem, 1fr)); gap: 1rem; }
+figure { margin: 0; border: 1px solid #e5e7eb; border-radius: 6px; padding: 0.5rem; }
+figure svg { width: 100%; height: auto; display: block; }
+figure.error { border-color: #dc2626; }
+figcaption { font-size: 0.8rem; margin-top: 0.4rem; color: #374151; }
+pre { background: #f9fafb; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+`;
+
+// Click a heading to sort its table by that column; numbers sort numerically
+const SORT_SCRIPT = `
+document.querySelectorAll("table.sortable").forEach(function (table) {
+  var headings = table.querySelectorAll("th");
+  headings.forEach(function (th, column) {
+    th.addEventListener("click", function () {
+      var ascending = th.dataset.order !== "asc";
+      headings.forEach(function (h) { delete h.dataset.order; });
+      th.dataset.order = ascending ? "asc" : "desc";
+      var body = table.tBodies[0];
+      var rows = Array.prototype.slice.call(body.rows);
+      rows.sort(function (a, b) {
+        var x = a.cells[column].dataset.value, y = b.cells[column].dataset.value;
+        var order = x !== "" && y !== "" && !isNaN(x) && !isNaN(y) ? x - y : x.localeCompare(y);
+        return ascending ? order : -order;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+});
+`;
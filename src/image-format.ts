@@ -0,0 +1,84 @@
+export const IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+  "image/svg+xml",
+] as const;
+
+export type ImageType = (typeof IMAGE_TYPES)[number];
+
+/** EXIF orientation, 1 (upright) to 8; see `readExifOrientation` */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+/**
+ * Image type from the file's leading bytes rather than its name or the
+ * type it was served with, which are often missing or wrong (a PNG saved
+ * as .svg, a paste with no type). SVG is recognised by an `<svg` element
+ * or XML declaration near the start of the text. Returns null otherwise.
+ */
+export function sniffImageType(bytes: Uint8Array): ImageType | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "image/gif";
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "image/webp";
+  if (startsWith(bytes, ascii("BM"))) return "image/bmp";
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).replace(/^\uFEFF/, "");
+  // Some exporters put long comments first, so an XML declaration is taken as SVG too
+  if (/^\s*</.test(head) && (/<svg[\s>]/i.test(head) || /^\s*<\?xml/.test(head))) return "image/svg+xml";
+  return null;
+}
+
+/**
+ * Orientation tag (0x0112) from a JPEG's EXIF block: 1 is upright, 3 is
+ * rotated 180°, 6 and 8 are rotated 90° clockwise and counter-clockwise,
+ * and 2, 4, 5, 7 are their mirrored forms. Returns 1 when there is no tag
+ * or the file is not a JPEG.
+ */
+export function readExifOrientation(bytes: Uint8Array): ExifOrientation {
+  if (!startsWith(bytes, [0xff, 0xd8])) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Start of scan: the compressed data follows, with no more metadata
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && startsWith(bytes, ascii("Exif\0\0"), offset + 4)) {
+      return readTiffOrientation(view, offset + 10, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function readTiffOrientation(view: DataView, tiff: number, end: number): ExifOrientation {
+  if (tiff + 8 > end) return 1;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > end) return 1;
+
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? (value as ExifOrientation) : 1;
+    }
+  }
+  return 1;
+}
+
+// Orientations 5–8 store the image on its side, so width and height swap
+export function orientationSwapsAxes(orientation: ExifOrientation): boolean {
+  return orientation >= 5;
+}
@@ -0,0 +1,136 @@
+import { orientationSwapsAxes, readExifOrientation, sniffImageType } from "./image-format.js";
+import type { ExifOrientation, ImageType } from "./image-format.js";
+import { downscaleFactor } from "./image-scaling.js";
+
+/** A file or blob, or the URL of an image (http(s), data: or blob:) */
+export type ImageSource = Blob | string;
+
+export interface LoadImageOptions {
+  /** Downscale so the longer side is at most this many pixels (default: full resolution) */
+  maxDimension?: number;
+  signal?: AbortSignal;
+}
+
+export interface LoadedImage {
+  /** Upright pixels at detection resolution */
+  imageData: ImageData;
+  /** Size of the upright image at full resolution */
+  width: number;
+  height: number;
+  /** Factor `imageData` was downscaled by, 1 when it is full size */
+  scale: number;
+  type: ImageType;
+  orientation: ExifOrientation;
+}
+
+// Browsers that honour EXIF orientation when decoding already hand back upright pixels
+const BROWSER_ORIENTS_IMAGES = typeof CSS !== "undefined" && CSS.supports("image-orientation", "from-image");
+
+/**
+ * Re-type a file by its content, so a PNG named .svg or a paste with no
+ * type decodes correctly. Throws for anything that is not an image.
+ */
+export async function toImageFile(blob: Blob, name = blob instanceof File ? blob.name : "image"): Promise<File> {
+  const type = sniffImageType(new Uint8Array(await blob.slice(0, 1024).arrayBuffer()));
+  if (!type) throw new Error(`Unsupported image format: ${name}`);
+  if (blob instanceof File && blob.type === type && blob.name === name) return blob;
+  return new File([blob], name, { type });
+}
+
+/**
+ * Fetch an image URL into a file named after its last path segment. The
+ * URL has to be same-origin or served with CORS headers.
+ */
+export async function fetchImageFile(url: string, name?: string, signal?: AbortSignal): Promise<File> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Could not fetch ${url}: ${response.status} ${response.statusText}`);
+  const fallback = url.startsWith("data:") ? "image" : new URL(url, location.href).pathname.split("/").pop() || "image";
+  return toImageFile(await response.blob(), name ?? decodeURIComponent(fallback));
+}
+
+/** Image files pasted or dropped, or failing that the first URL among the text */
+export function imagesFromDataTransfer(dataTransfer: DataTransfer): { files: File[]; url: string | null } {
+  const files = Array.from(dataTransfer.files);
+  if (files.length > 0) return { files, url: null };
+  const text = dataTransfer.getData("text/uri-list") || dataTransfer.getData("text/plain");
+  const url = text.split(/\r?\n/).find((line) => /^(https?:|data:image\/|blob:)/i.test(line.trim()));
+  return { files, url: url?.trim() ?? null };
+}
+
+/**
+ * Decode an image onto `canvas`: sniff its real type, turn it upright
+ * according to its EXIF orientation, and downscale it to
+ * `options.maxDimension`. The object URL used for decoding is revoked
+ * as soon as the pixels are on the canvas.
+ */
+export async function loadImageSource(
+  source: ImageSource,
+  canvas: HTMLCanvasElement,
+  options: LoadImageOptions = {}
+): Promise<LoadedImage> {
+  const blob = typeof source === "string" ? await fetchImageFile(source, undefined, options.signal) : source;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  options.signal?.throwIfAborted();
+  const type = sniffImageType(bytes);
+  if (!type) throw new Error(`Unsupported image format: ${blob instanceof File ? blob.name : "image"}`);
+
+  const fileOrientation = type === "image/jpeg" ? readExifOrientation(bytes) : 1;
+  const orientation = BROWSER_ORIENTS_IMAGES ? 1 : fileOrientation;
+  const url = URL.createObjectURL(blob.type === type ? blob : new Blob([bytes], { type }));
+  try {
+    const img = await decodeImageElement(url);
+    // SVGs without a size report 0 until laid out
+    const rawWidth = img.naturalWidth || img.width;
+    const rawHeight = img.naturalHeight || img.height;
+    const swap = orientationSwapsAxes(orientation);
+    const width = swap ? rawHeight : rawWidth;
+    const height = swap ? rawWidth : rawHeight;
+    const scale = downscaleFactor(width, height, options.maxDimension);
+
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+    ctx.imageSmoothingQuality = "high";
+    ctx.setTransform(...orientationTransform(orientation, canvas.width, canvas.height));
+    ctx.drawImage(img, 0, 0, swap ? canvas.height : canvas.width, swap ? canvas.width : canvas.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    return {
+      imageData: ctx.getImageData(0, 0, canvas.width, canvas.height),
+      width,
+      height,
+      scale,
+      type,
+      orientation: fileOrientation,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function decodeImageElement(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The image could not be decoded"));
+    img.src = url;
+  });
+}
+
+// Canvas transform that draws the stored image upright into a `width` × `height` canvas
+function orientationTransform(
+  orientation: ExifOrientation,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, width, 0];
+    case 7: return [0, -1, -1, 0, width, height];
+    case 8: return [0, -1, 1, 0, 0, height];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
@@ -0,0 +1,387 @@
+import type { PixelBuffer, Point } from "./detection-core.js";
+import type { GroundTruthShape } from "./evaluation-utils.js";
+import { groundTruthPolygon } from "./evaluation-utils.js";
+import { seededRandom } from "./scene-generator.js";
+
+// Controlled image degradations for the robustness benchmark
+
+export const PERTURBATION_KINDS = [
+  "gaussian-noise",
+  "blur",
+  "rescale",
+  "rotation",
+  "brightness-contrast",
+  "salt-and-pepper",
+  "jpeg",
+] as const;
+
+export type PerturbationKind = (typeof PERTURBATION_KINDS)[number];
+
+/**
+ * One perturbation at one strength. What `strength` means depends on the kind:
+ * - "gaussian-noise": standard deviation in gray levels (0..255)
+ * - "blur": Gaussian blur sigma in pixels
+ * - "rescale": factor the image is shrunk by before scaling back up (0..1)
+ * - "rotation": degrees clockwise about the image center
+ * - "brightness-contrast": how much contrast is lost (0..1), with a matching brightness lift
+ * - "salt-and-pepper": share of pixels set to black or white (0..1)
+ * - "jpeg": JPEG quality (1..100, lower is worse)
+ */
+export interface Perturbation {
+  kind: PerturbationKind;
+  strength: number;
+}
+
+/** Mild, moderate and severe levels of each perturbation */
+export const PERTURBATION_LEVELS: Readonly<Record<PerturbationKind, readonly number[]>> = {
+  "gaussian-noise": [8, 20, 40],
+  blur: [0.75, 1.5, 3],
+  rescale: [0.75, 0.5, 0.3],
+  rotation: [5, 15, 30],
+  "brightness-contrast": [0.5, 0.8, 0.95],
+  "salt-and-pepper": [0.01, 0.03, 0.08],
+  jpeg: [50, 20, 5],
+};
+
+export function describePerturbation({ kind, strength }: Perturbation): string {
+  switch (kind) {
+    case "gaussian-noise":
+      return `σ ${strength}`;
+    case "blur":
+      return `σ ${strength}px`;
+    case "rescale":
+      return `×${strength}`;
+    case "rotation":
+      return `${strength}°`;
+    case "brightness-contrast":
+      return `-${Math.round(strength * 100)}% contrast`;
+    case "salt-and-pepper":
+      return `${+(strength * 100).toFixed(1)}% pixels`;
+    case "jpeg":
+      return `quality ${strength}`;
+  }
+}
+
+/**
+ * A degraded copy of `image`, the same size. Random perturbations draw
+ * from `seed`, so a run can be repeated exactly.
+ */
+export function perturbImage(image: PixelBuffer, perturbation: Perturbation, seed = 1): PixelBuffer {
+  const { width, height } = image;
+  const src = Uint8ClampedArray.from(image.data);
+  const { kind, strength } = perturbation;
+  switch (kind) {
+    case "gaussian-noise":
+      return { width, height, data: addGaussianNoise(src, strength, seed) };
+    case "blur":
+      return { width, height, data: gaussianBlur(src, width, height, strength) };
+    case "rescale":
+      return { width, height, data: rescale(src, width, height, strength) };
+    case "rotation":
+      return { width, height, data: rotate(src, width, height, strength) };
+    case "brightness-contrast":
+      return { width, height, data: reduceContrast(src, strength) };
+    case "salt-and-pepper":
+      return { width, height, data: saltAndPepper(src, strength, seed) };
+    case "jpeg":
+      return { width, height, data: jpegCompress(src, width, height, strength) };
+  }
+}
+
+/**
+ * Ground truth for the perturbed image. Only rotation moves anything:
+ * outlines are rotated with the image, so boxes are recomputed from the
+ * rotated vertices (or rotated ellipse, for circles, ellipses and shapes
+ * given only a box, where the new box is an approximation).
+ */
+export function perturbGroundTruth(
+  shapes: GroundTruthShape[],
+  perturbation: Perturbation,
+  width: number,
+  height: number
+): GroundTruthShape[] {
+  if (perturbation.kind !== "rotation") return shapes;
+  const angle = (perturbation.strength * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const cx = width / 2, cy = height / 2;
+  const rotatePoint = (p: Point): Point => ({
+    x: cx + (p.x - cx) * cos - (p.y - cy) * sin,
+    y: cy + (p.x - cx) * sin + (p.y - cy) * cos,
+  });
+
+  return shapes.map((shape) => {
+    const rotated: GroundTruthShape = { ...shape };
+    delete rotated.rotation_degrees;
+    const box = shape.bounding_box;
+    const center = shape.center ?? (box ? { x: box.x + box.width / 2, y: box.y + box.height / 2 } : null);
+    if (center) rotated.center = rotatePoint(center);
+
+    const type = shape.type.toLowerCase();
+    const boxed = !shape.vertices && (type === "rectangle" || type === "square");
+    const outline = shape.vertices || boxed ? (groundTruthPolygon(shape) ?? boxCorners(box)) : null;
+    if (outline) {
+      rotated.vertices = outline.map(rotatePoint);
+      rotated.bounding_box = pointBounds(rotated.vertices);
+    } else if (rotated.center && (box || shape.radius !== undefined)) {
+      // Treat the shape as the ellipse inscribed in its box
+      const rx = shape.radius_x ?? shape.radius ?? box!.width / 2;
+      const ry = shape.radius_y ?? shape.radius ?? box!.height / 2;
+      const theta = ((shape.angle_degrees ?? 0) * Math.PI) / 180 + angle;
+      const halfWidth = Math.hypot(rx * Math.cos(theta), ry * Math.sin(theta));
+      const halfHeight = Math.hypot(rx * Math.sin(theta), ry * Math.cos(theta));
+      rotated.bounding_box = {
+        x: rotated.center.x - halfWidth,
+        y: rotated.center.y - halfHeight,
+        width: 2 * halfWidth,
+        height: 2 * halfHeight,
+      };
+      if (shape.angle_degrees !== undefined) rotated.angle_degrees = shape.angle_degrees + perturbation.strength;
+    }
+    return rotated;
+  });
+}
+
+function boxCorners(box: GroundTruthShape["bounding_box"]): Point[] | null {
+  if (!box) return null;
+  const { x, y, width, height } = box;
+  return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+}
+
+function pointBounds(points: Point[]): { x: number; y: number; width: number; height: number } {
+  const xs = points.map((p) => p.x), ys = points.map((p) => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+function addGaussianNoise(data: Uint8ClampedArray, sigma: number, seed: number): Uint8ClampedArray {
+  const random = seededRandom(seed);
+  for (let i = 0; i < data.length; i += 4) {
+    // Box–Muller; the same offset on every channel, like sensor luminance noise
+    const noise = sigma * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    data[i] += noise;
+    data[i + 1] += noise;
+    data[i + 2] += noise;
+  }
+  return data;
+}
+
+function gaussianBlur(data: Uint8ClampedArray, width: number, height: number, sigma: number): Uint8ClampedArray {
+  const radius = Math.max(1, Math.ceil(3 * sigma));
+  const kernel = Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const total = kernel.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+
+  // Separable: rows into a float buffer, then columns back; edges clamp
+  const temp = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k));
+          sum += kernel[k + radius] * data[(y * width + sx) * 4 + c];
+        }
+        temp[(y * width + x) * 4 + c] = sum;
+      }
+    }
+  }
+  const out = new Uint8ClampedArray(data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sy = Math.min(height - 1, Math.max(0, y + k));
+          sum += kernel[k + radius] * temp[(sy * width + x) * 4 + c];
+        }
+        out[(y * width + x) * 4 + c] = sum;
+      }
+    }
+  }
+  return out;
+}
+
+// Area-average down to `factor` of the size, then bilinear back up
+function rescale(data: Uint8ClampedArray, width: number, height: number, factor: number): Uint8ClampedArray {
+  const smallWidth = Math.max(1, Math.round(width * factor));
+  const smallHeight = Math.max(1, Math.round(height * factor));
+  const small = new Float32Array(smallWidth * smallHeight * 4);
+  const counts = new Float32Array(smallWidth * smallHeight);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(smallHeight - 1, Math.floor((y * smallHeight) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(smallWidth - 1, Math.floor((x * smallWidth) / width));
+      const s = sy * smallWidth + sx;
+      counts[s]++;
+      for (let c = 0; c < 4; c++) small[s * 4 + c] += data[(y * width + x) * 4 + c];
+    }
+  }
+  for (let s = 0; s < counts.length; s++) {
+    for (let c = 0; c < 4; c++) small[s * 4 + c] /= Math.max(1, counts[s]);
+  }
+
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = sampleBilinear(small, smallWidth, smallHeight, ((x + 0.5) * smallWidth) / width - 0.5, ((y + 0.5) * smallHeight) / height - 0.5);
+      out.set(pixel, (y * width + x) * 4);
+    }
+  }
+  return out;
+}
+
+function rotate(data: Uint8ClampedArray, width: number, height: number, degrees: number): Uint8ClampedArray {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const cx = width / 2, cy = height / 2;
+  const fill = borderColor(data, width, height);
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Inverse-rotate this pixel's center into the source image
+      const dx = x + 0.5 - cx, dy = y + 0.5 - cy;
+      const sx = cx + dx * cos + dy * sin - 0.5;
+      const sy = cy - dx * sin + dy * cos - 0.5;
+      const inside = sx >= -0.5 && sy >= -0.5 && sx <= width - 0.5 && sy <= height - 0.5;
+      out.set(inside ? sampleBilinear(data, width, height, sx, sy) : fill, (y * width + x) * 4);
+    }
+  }
+  return out;
+}
+
+// Per-channel median of the outermost pixels: what the corners exposed by a rotation are filled with
+function borderColor(data: Uint8ClampedArray, width: number, height: number): number[] {
+  const channels: number[][] = [[], [], [], []];
+  const add = (x: number, y: number) => {
+    for (let c = 0; c < 4; c++) channels[c].push(data[(y * width + x) * 4 + c]);
+  };
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    add(width - 1, y);
+  }
+  return channels.map((values) => values.sort((a, b) => a - b)[values.length >> 1]);
+}
+
+function sampleBilinear(data: ArrayLike<number>, width: number, height: number, x: number, y: number): number[] {
+  const x0 = Math.max(0, Math.min(width - 1, Math.floor(x))), y0 = Math.max(0, Math.min(height - 1, Math.floor(y)));
+  const x1 = Math.min(width - 1, x0 + 1), y1 = Math.min(height - 1, y0 + 1);
+  const fx = Math.max(0, Math.min(1, x - x0)), fy = Math.max(0, Math.min(1, y - y0));
+  const pixel: number[] = [];
+  for (let c = 0; c < 4; c++) {
+    const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx;
+    const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx;
+    pixel.push(top * (1 - fy) + bottom * fy);
+  }
+  return pixel;
+}
+
+// Squeeze towards mid-gray and lift the brightness, so shapes fade into a washed-out background
+function reduceContrast(data: Uint8ClampedArray, amount: number): Uint8ClampedArray {
+  const gain = 1 - amount;
+  const lift = amount * 48;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] - 128) * gain + 128 + lift;
+  }
+  return data;
+}
+
+function saltAndPepper(data: Uint8ClampedArray, share: number, seed: number): Uint8ClampedArray {
+  const random = seededRandom(seed);
+  for (let i = 0; i < data.length; i += 4) {
+    if (random() >= share) continue;
+    const value = random() < 0.5 ? 0 : 255;
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+  return data;
+}
+
+// Standard JPEG quantization tables (ITU T.81, Annex K)
+const LUMA_TABLE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMA_TABLE = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99, ...new Array(32).fill(99),
+];
+const DCT_COS = Array.from({ length: 64 }, (_, i) => {
+  const u = i >> 3, x = i & 7;
+  return (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16) / 2;
+});
+
+/**
+ * JPEG-style lossy round trip: YCbCr, 8×8 DCT, quantization with the
+ * standard tables scaled to `quality` (as libjpeg does), then back.
+ * Chroma is not subsampled and nothing is entropy-coded.
+ */
+function jpegCompress(data: Uint8ClampedArray, width: number, height: number, quality: number): Uint8ClampedArray {
+  const q = Math.max(1, Math.min(100, quality));
+  const scale = q < 50 ? 5000 / q : 200 - 2 * q;
+  const tables = [LUMA_TABLE, CHROMA_TABLE, CHROMA_TABLE].map((table) =>
+    table.map((v) => Math.max(1, Math.min(255, Math.floor((v * scale + 50) / 100))))
+  );
+
+  const planes = [0, 1, 2].map(() => new Float32Array(width * height));
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    planes[0][i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+    planes[1][i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    planes[2][i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  const block = new Float32Array(64);
+  const coefficients = new Float32Array(64);
+  for (let p = 0; p < 3; p++) {
+    const plane = planes[p];
+    for (let by = 0; by < height; by += 8) {
+      for (let bx = 0; bx < width; bx += 8) {
+        // Edge blocks repeat the last row/column
+        for (let i = 0; i < 64; i++) {
+          const x = Math.min(width - 1, bx + (i & 7)), y = Math.min(height - 1, by + (i >> 3));
+          block[i] = plane[y * width + x];
+        }
+        dct2d(block, coefficients, false);
+        for (let i = 0; i < 64; i++) coefficients[i] = Math.round(coefficients[i] / tables[p][i]) * tables[p][i];
+        dct2d(coefficients, block, true);
+        for (let i = 0; i < 64; i++) {
+          const x = bx + (i & 7), y = by + (i >> 3);
+          if (x < width && y < height) plane[y * width + x] = block[i];
+        }
+      }
+    }
+  }
+
+  const out = new Uint8ClampedArray(data);
+  for (let i = 0; i < width * height; i++) {
+    const luma = planes[0][i] + 128, cb = planes[1][i], cr = planes[2][i];
+    out[i * 4] = luma + 1.402 * cr;
+    out[i * 4 + 1] = luma - 0.344136 * cb - 0.714136 * cr;
+    out[i * 4 + 2] = luma + 1.772 * cb;
+  }
+  return out;
+}
+
+// Separable 8×8 DCT-II (or its inverse), rows then columns
+function dct2d(input: Float32Array, output: Float32Array, inverse: boolean): void {
+  const temp = new Float32Array(64);
+  for (let pass = 0; pass < 2; pass++) {
+    const src = pass === 0 ? input : temp;
+    const dst = pass === 0 ? temp : output;
+    for (let line = 0; line < 8; line++) {
+      for (let k = 0; k < 8; k++) {
+        let sum = 0;
+        for (let n = 0; n < 8; n++) {
+          const value = pass === 0 ? src[line * 8 + n] : src[n * 8 + line];
+          sum += value * (inverse ? DCT_COS[n * 8 + k] : DCT_COS[k * 8 + n]);
+        }
+        if (pass === 0) dst[line * 8 + k] = sum;
+        else dst[k * 8 + line] = sum;
+      }
+    }
+  }
+}
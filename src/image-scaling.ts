@@ -0,0 +1,77 @@
+import type { DetectedShape, DetectionResult, PixelBuffer, Point } from "./detection-core.js";
+
+/**
+ * Factor that fits an image into `maxDimension` pixels on its longer
+ * side: 1 when it already fits or no limit is set, otherwise below 1.
+ */
+export function downscaleFactor(width: number, height: number, maxDimension?: number): number {
+  if (maxDimension === undefined || !(maxDimension > 0)) return 1;
+  return Math.min(1, maxDimension / Math.max(width, height));
+}
+
+/**
+ * Shrink an RGBA buffer by `scale` (below 1), averaging the source pixels
+ * each output pixel covers so thin strokes fade rather than vanish.
+ */
+export function downscaleBuffer(image: PixelBuffer, scale: number): PixelBuffer {
+  if (scale >= 1) return image;
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  const stepX = image.width / width;
+  const stepY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * stepY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * stepY));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * stepX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * stepX));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += image.data[i + c];
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[o + c] = sum[c] / count;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Map a detection made on an image downscaled by `scale` back to the
+ * original, `width` × `height` one: positions and lengths grow by
+ * 1 / `scale` and areas by its square, while angles, types and confidences
+ * are unchanged. The result records `scale`. Debug intermediates are left
+ * at the resolution they were computed at.
+ */
+export function scaleDetectionResult(
+  result: DetectionResult,
+  scale: number,
+  width: number,
+  height: number
+): DetectionResult {
+  if (scale === 1) return result;
+  const factor = 1 / scale;
+  // Coordinates are pixel centers, so scale about the corner of pixel 0
+  const point = ({ x, y }: Point): Point => ({ x: (x + 0.5) * factor - 0.5, y: (y + 0.5) * factor - 0.5 });
+
+  const shapes = result.shapes.map((shape): DetectedShape => {
+    const { x, y } = point(shape.boundingBox);
+    const obb = shape.orientedBoundingBox;
+    return {
+      ...shape,
+      boundingBox: { x, y, width: shape.boundingBox.width * factor, height: shape.boundingBox.height * factor },
+      center: point(shape.center),
+      area: shape.area * factor * factor,
+      contour: shape.contour.map(point),
+      vertices: shape.vertices.map(point),
+      orientedBoundingBox: { ...obb, center: point(obb.center), width: obb.width * factor, height: obb.height * factor },
+    };
+  });
+  return { ...result, shapes, imageWidth: width, imageHeight: height, scale };
+}
@@ -0,0 +1,148 @@
+/**
+ * Connected regions of a binary image, in flat typed arrays. Foreground
+ * (1) is 8-connected and background (0) 4-connected, so every hole inside
+ * a shape is a background region of its own. Labels are 1-based and
+ * numbered in raster order of each region's first pixel, so a region's
+ * surroundings (the pixel above a hole, or left of a shape) always carry a
+ * smaller label.
+ */
+export interface RegionLabels {
+  /** Region label per pixel */
+  labels: Int32Array;
+  /** Number of regions; per-region arrays are indexed 1..count */
+  count: number;
+  foreground: Uint8Array;
+  touchesBorder: Uint8Array;
+  /** Raster index of the region's first pixel */
+  start: Int32Array;
+  pixelCount: Int32Array;
+  minX: Int32Array;
+  minY: Int32Array;
+  maxX: Int32Array;
+  maxY: Int32Array;
+  /** Σx, Σy, Σx², Σy², Σxy per region, 5 entries each */
+  sums: Float64Array;
+}
+
+/**
+ * Two-pass labeling: the first pass gives each pixel a provisional label
+ * from its already-visited neighbours and records equivalences in a
+ * union-find; the second resolves them and accumulates every region's
+ * statistics in the same sweep, in closed form per run of equal labels.
+ */
+export function labelRegions(binary: Uint8Array, width: number, height: number): RegionLabels {
+  const labels = new Int32Array(width * height);
+  let parent = new Int32Array(1 << 16);
+  let next = 1;
+
+  const find = (label: number): number => {
+    while (parent[label] !== label) {
+      parent[label] = parent[parent[label]];
+      label = parent[label];
+    }
+    return label;
+  };
+  // Keep the smaller root so labels stay ordered by first appearance
+  const union = (a: number, b: number): number => {
+    a = find(a);
+    b = find(b);
+    if (a === b) return a;
+    if (a < b) {
+      parent[b] = a;
+      return a;
+    }
+    parent[a] = b;
+    return b;
+  };
+
+  const join = (label: number, other: number) => (label ? union(label, other) : other);
+
+  // Pass 1: provisional labels. Foreground looks at W, NW, N and NE,
+  // background only at W and N.
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      const i = row + x;
+      const value = binary[i];
+      let label = x > 0 && binary[i - 1] === value ? labels[i - 1] : 0;
+      if (y > 0) {
+        const up = i - width;
+        if (binary[up] === value) label = join(label, labels[up]);
+        if (value) {
+          if (x > 0 && binary[up - 1]) label = join(label, labels[up - 1]);
+          if (x < width - 1 && binary[up + 1]) label = join(label, labels[up + 1]);
+        }
+      }
+
+      if (!label) {
+        if (next === parent.length) {
+          const grown = new Int32Array(parent.length * 2);
+          grown.set(parent);
+          parent = grown;
+        }
+        parent[next] = next;
+        label = next++;
+      }
+      labels[i] = label;
+    }
+  }
+
+  // Final labels in order of first appearance
+  const final = new Int32Array(next);
+  let count = 0;
+  for (let label = 1; label < next; label++) {
+    const root = find(label);
+    final[label] = root === label ? ++count : final[root];
+  }
+
+  const regions: RegionLabels = {
+    labels,
+    count,
+    foreground: new Uint8Array(count + 1),
+    touchesBorder: new Uint8Array(count + 1),
+    start: new Int32Array(count + 1).fill(-1),
+    pixelCount: new Int32Array(count + 1),
+    minX: new Int32Array(count + 1).fill(width),
+    minY: new Int32Array(count + 1).fill(height),
+    maxX: new Int32Array(count + 1).fill(-1),
+    maxY: new Int32Array(count + 1).fill(-1),
+    sums: new Float64Array(5 * (count + 1)),
+  };
+  const { foreground, touchesBorder, start, pixelCount, minX, minY, maxX, maxY, sums } = regions;
+
+  // Pass 2: resolve labels and accumulate per-region statistics, one
+  // horizontal run of equal labels at a time
+  const sumOfSquares = (n: number) => (n * (n + 1) * (2 * n + 1)) / 6;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    const edgeRow = y === 0 || y === height - 1;
+    let x = 0;
+    while (x < width) {
+      const label = final[labels[row + x]];
+      const runStart = x;
+      while (x < width && final[labels[row + x]] === label) labels[row + x++] = label;
+      const runEnd = x - 1, n = x - runStart;
+
+      if (start[label] < 0) {
+        start[label] = row + runStart;
+        foreground[label] = binary[row + runStart];
+        minY[label] = y;
+      }
+      pixelCount[label] += n;
+      if (runStart < minX[label]) minX[label] = runStart;
+      if (runEnd > maxX[label]) maxX[label] = runEnd;
+      maxY[label] = y;
+      if (edgeRow || runStart === 0 || runEnd === width - 1) touchesBorder[label] = 1;
+
+      const sumX = ((runStart + runEnd) * n) / 2;
+      const s = label * 5;
+      sums[s] += sumX;
+      sums[s + 1] += y * n;
+      sums[s + 2] += sumOfSquares(runEnd) - sumOfSquares(runStart - 1);
+      sums[s + 3] += y * y * n;
+      sums[s + 4] += y * sumX;
+    }
+  }
+
+  return regions;
+}
@@ -1,235 +1,190 @@
 import "./style.css";
-import { SelectionManager } from "./ui-utils.js";
+import { SelectionManager, downloadFiles, filesFromDataTransfer } from "./ui-utils.js";
 import { EvaluationManager } from "./evaluation-manager.js";
-
-export interface Point {
-  x: number;
-  y: number;
-}
-
-export interface DetectedShape {
-  type: "circle" | "triangle" | "rectangle" | "pentagon" | "star";
-  confidence: number;
-  boundingBox: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  center: Point;
-  area: number;
-}
-
-export interface DetectionResult {
-  shapes: DetectedShape[];
-  processingTime: number;
-  imageWidth: number;
-  imageHeight: number;
-}
+import { detectShapesInBuffer } from "./detection-core.js";
+import type { DetectedShape, DetectionResult } from "./detection-core.js";
+import { resolveDetectorOptions } from "./detector-options.js";
+import type { DetectorOptions, DetectorOptionsInput } from "./detector-options.js";
+import type { BinarizationInfo } from "./thresholding.js";
+import { AnnotationTool } from "./annotation-tool.js";
+import { DebugPanel } from "./debug-view.js";
+import { OverlayRenderer, OVERLAY_LAYERS } from "./overlay-renderer.js";
+import { EXPORT_FORMATS, exportDetections } from "./result-export.js";
+import type { ExportFormat, ExportImage } from "./result-export.js";
+import type { OverlayLayer } from "./overlay-renderer.js";
+import { WorkerShapeDetector } from "./worker-detector.js";
+import { BatchPanel } from "./batch-panel.js";
+import { fetchImageFile, imagesFromDataTransfer, loadImageSource } from "./image-ingestion.js";
+import type { ImageSource, LoadImageOptions, LoadedImage } from "./image-ingestion.js";
+import { scaleDetectionResult } from "./image-scaling.js";
+import { RegionTool } from "./region-tool.js";
+import type { DetectionControl } from "./worker-detector.js";
+
+export type {
+  Point,
+  DetectedShape,
+  DetectionProgress,
+  DetectionDebug,
+  DetectionResult,
+  DetectionStage,
+  PixelBuffer,
+  RejectedComponent,
+  RejectionReason,
+  ShapeStyle,
+  ShapeType,
+} from "./detection-core.js";
+export type {
+  DetectorOptions,
+  DetectorOptionsInput,
+  DetectorPresetName,
+  ThresholdMode,
+} from "./detector-options.js";
+export type { OrientedBoundingBox } from "./geometry-utils.js";
+export type { OverlayLayer, OverlayLayers } from "./overlay-renderer.js";
+export { regionMask, scaleRegion, scaleRegions, validateRegions } from "./regions.js";
+export type { DetectionRegion, RegionSet } from "./regions.js";
+export {
+  annotationFromDetection,
+  mergeGroundTruth,
+  toGroundTruthImage,
+  toGroundTruthShape,
+} from "./annotation-model.js";
+export type { Annotation, AnnotationGeometry, AnnotationType } from "./annotation-model.js";
+export {
+  EXPORT_FORMATS,
+  exportDetections,
+  toCocoJson,
+  shapeLabel,
+  toDetectionCsv,
+  toDetectionJson,
+  toPascalVocXml,
+  toShapeCountCsv,
+} from "./result-export.js";
+export type { ExportFile, ExportFormat, ExportImage } from "./result-export.js";
+export {
+  DEFAULT_SCENE_OPTIONS,
+  SCENE_SHAPE_TYPES,
+  generateScene,
+  generateScenes,
+  scenesToGroundTruth,
+} from "./scene-generator.js";
+export type { SceneOptions, ScenePolarity, SceneShapeType, SyntheticScene } from "./scene-generator.js";
+export {
+  PERTURBATION_KINDS,
+  PERTURBATION_LEVELS,
+  describePerturbation,
+  perturbGroundTruth,
+  perturbImage,
+} from "./image-perturbations.js";
+export type { Perturbation, PerturbationKind } from "./image-perturbations.js";
+export { evaluateRobustness } from "./robustness.js";
+export type {
+  RobustnessCurve,
+  RobustnessImage,
+  RobustnessLevel,
+  RobustnessOptions,
+  RobustnessReport,
+} from "./robustness.js";
+export { compareToBaseline, createBaseline, parseBaseline } from "./evaluation-baseline.js";
+export type {
+  BaselineComparison,
+  BaselineImage,
+  BaselineShape,
+  EvaluationBaseline,
+  ImageComparison,
+  MetricDelta,
+  ShapeFlip,
+} from "./evaluation-baseline.js";
+export { evaluateImages, rubricForGroundTruth } from "./evaluation-engine.js";
+export type { EngineOptions, EvaluationImage } from "./evaluation-engine.js";
+export {
+  DEFAULT_RUBRIC,
+  RUBRIC_METRICS,
+  applyToleranceGuidelines,
+  parseRubric,
+  resolveRubric,
+} from "./scoring-rubric.js";
+export type {
+  RubricBand,
+  RubricCriterion,
+  RubricGrade,
+  RubricMetric,
+  ScoringRubric,
+} from "./scoring-rubric.js";
+export { GALLERY_COLORS, galleryResults, toHtmlReport } from "./html-report.js";
+export type { HtmlReportOptions } from "./html-report.js";
+export { BatchQueue, summarizeBatch } from "./batch-queue.js";
+export type { BatchItem, BatchProcessor, BatchProgress, BatchStatus, BatchSummary } from "./batch-queue.js";
+export { IMAGE_TYPES, orientationSwapsAxes, readExifOrientation, sniffImageType } from "./image-format.js";
+export type { ExifOrientation, ImageType } from "./image-format.js";
+export { downscaleBuffer, downscaleFactor, scaleDetectionResult } from "./image-scaling.js";
+export { fetchImageFile, imagesFromDataTransfer, loadImageSource, toImageFile } from "./image-ingestion.js";
+export type { ImageSource, LoadImageOptions, LoadedImage } from "./image-ingestion.js";
+export type { BinarizationInfo, Polarity } from "./thresholding.js";
+export type { DetectionControl } from "./worker-detector.js";
 
 export class ShapeDetector {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private options: DetectorOptions;
+  private worker: WorkerShapeDetector | null;
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, options?: DetectorOptionsInput) {
     this.canvas = canvas;
-    this.ctx = canvas.getContext("2d")!;
+    this.options = resolveDetectorOptions(options);
+    this.worker = typeof Worker !== "undefined" ? new WorkerShapeDetector() : null;
   }
 
   /**
-   * Algorithm for detecting and classifying geometric shapes.
-   *
-   * Overview:
-   * 1. Convert RGBA to Grayscale
-   * 2️. Adaptive threshold (auto-detect dark/light polarity)
-   * 3. Connected-component labeling (BFS)
-   * 4. Compute the geometric features 
-   * 5. Filter noise / non-shapes
-   * 6️. Classify shapes to circle, triangle, rectangle, pentagon, star
-   * 7️. Return formatted DetectionResult
-   *
+   * Detect shapes in canvas pixels. Delegates to the DOM-free core in
+   * `detection-core.ts`, which the Node entry point also uses, running it
+   * in a Web Worker where available (the `ImageData` buffer is transferred
+   * to the worker, so it is detached afterwards).
+   * Per-call `options` override the ones given to the constructor.
    */
-  async detectShapes(imageData: ImageData): Promise<DetectionResult> {
-    const startTime = performance.now();
-    const { width, height, data } = imageData;
-    const shapes: DetectedShape[] = [];
-
-    // STEP-1: RGBA to Grayscale conversion
-    const gray = new Uint8ClampedArray(width * height);
-    for (let i=0; i<data.length; i+=4) {
-      const r = data[i], g = data[i+1], b = data[i+2];
-      gray[i/4] = 0.299 * r + 0.587 * g + 0.114 * b;
-    }
-
-    // STEP-2: Adaptive Thresholding with Polarity Detection
-    let sum = 0;
-    for (let i=0; i<gray.length; i++) sum+=gray[i];
-    const avg = sum/gray.length;
-
-    let darkPixels=0, lightPixels=0;
-    for (let i=0; i<gray.length; i++) {
-      if (gray[i]<avg) darkPixels++;
-      else lightPixels++;
-    }
-    const shapesAreLight = lightPixels < darkPixels;
-
-    const binary = new Uint8Array(width * height);
-    for (let i=0; i<gray.length; i++) {
-      if (shapesAreLight)
-        binary[i] = gray[i]>avg ? 1:0;
-      else
-        binary[i] = gray[i]<avg ? 1:0;
-    }
-
-    // STEP-3: Connected-Component Labeling (BFS)
-    const visited = new Uint8Array(width * height);
-    const dirs = [
-      [1,0], [-1,0], [0,1], [0,-1],
-      [1,1], [1,-1], [-1,1], [-1,-1]
-    ];
-
-    const index = (x: number, y: number) => y * width + x;
-
-    for (let y=0; y<height; y++) {
-      for (let x=0; x<width; x++) {
-        const idx = index(x,y);
-        if (binary[idx] === 0 || visited[idx]) continue;
-
-        const q: Point[] = [{ x,y }];
-        visited[idx] = 1;
-        const pixels: Point[] = [];
-
-        while (q.length) {
-          const { x: cx, y: cy } = q.pop()!;
-          pixels.push({ x: cx, y: cy });
-
-          for (const [dx, dy] of dirs) {
-            const nx = cx + dx, ny = cy + dy;
-            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
-            const nidx = index(nx, ny);
-            if (binary[nidx] === 1 && !visited[nidx]) {
-              visited[nidx] = 1;
-              q.push({ x: nx, y: ny });
-            }
-          }
-        }
-
-        if (pixels.length < 40) continue; // ignore tiny noise
-
-        // STEP-4: Compute geometric metrics
-        const xs = pixels.map(p => p.x);
-        const ys = pixels.map(p => p.y);
-        const minX = Math.min(...xs), maxX = Math.max(...xs);
-        const minY = Math.min(...ys), maxY = Math.max(...ys);
-
-        const area = pixels.length;
-        const bbox = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
-        const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
-
-        // Perimeter calculation
-        let perimeter = 0;
-        for (const { x: px, y: py } of pixels) {
-          let edge = false;
-          for (const [dx, dy] of dirs) {
-            const nx = px + dx, ny = py + dy;
-            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
-            if (binary[index(nx, ny)] === 0) { edge = true; break; }
-          }
-          if (edge) perimeter++;
-        }
-
-        const circularity = (4 * Math.PI * area) / (perimeter * perimeter + 1e-6);
-
-        // STEP-5: Estimate Corners
-        const boundary = pixels.filter(({ x, y }) => {
-          for (const [dx, dy] of dirs) {
-            const nx = x + dx, ny = y + dy;
-            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
-            if (binary[index(nx, ny)] === 0) return true;
-          }
-          return false;
-        });
-
-        let corners = 0;
-        for (let i = 0; i < boundary.length; i += Math.floor(boundary.length / 20) + 1) {
-          const p1 = boundary[i];
-          const p2 = boundary[(i + 1) % boundary.length];
-          const p3 = boundary[(i + 2) % boundary.length];
-          const v1 = { x: p2.x - p1.x, y: p2.y - p1.y };
-          const v2 = { x: p3.x - p2.x, y: p3.y - p2.y };
-          const dot = v1.x * v2.x + v1.y * v2.y;
-          const mag = Math.sqrt(v1.x*v1.x + v1.y*v1.y) *
-                      Math.sqrt(v2.x*v2.x + v2.y*v2.y);
-          const angle = Math.acos(Math.max(-1, Math.min(1, dot / (mag + 1e-6))));
-          if (angle > Math.PI / 4 && angle < (3 * Math.PI) / 4) corners++;
-        }
-
-        // STEP-6: Reject non-shape noise / lines / text
-        const bboxArea = bbox.width * bbox.height;
-        const fillRatio = area / (bboxArea + 1e-6);
-        const aspectRatio = Math.max(bbox.width, bbox.height) / Math.max(1, Math.min(bbox.width, bbox.height));
-        const thinness = perimeter / (area + 1);
-
-        if (area < 300) continue;
-        if (fillRatio < 0.2) continue;
-        if (aspectRatio > 4.0) continue;
-        if (thinness > 0.5) continue;
-
-        // STEP-7: Shape Classification
-        let type: DetectedShape["type"] = "rectangle";
-        let confidence = 0.5;
-
-        if (circularity>0.75) {
-          type = "circle";
-          confidence = circularity;
-        } else if (corners<=4) {
-          type = "triangle";
-          confidence = 0.9;
-        } else if (corners<=6) {
-          type = "pentagon";
-          confidence = 0.85;
-        } else {
-          const ratio = bbox.width / bbox.height;
-          if (ratio<1.2 && circularity<0.4) {
-            type = "star";
-            confidence = 0.8;
-          } else {
-            type = "rectangle";
-            confidence = 0.8;
-          }
-        }
-
-        shapes.push({ type, confidence, boundingBox: bbox, center, area });
-      }
-    }
-
-    const processingTime = performance.now() - startTime;
+  async detectShapes(
+    imageData: ImageData,
+    options?: DetectorOptionsInput,
+    control: DetectionControl = {}
+  ): Promise<DetectionResult> {
+    const resolved = resolveDetectorOptions(this.options, options);
+    if (this.worker) return this.worker.detectShapes(imageData, resolved, control);
+
+    control.signal?.throwIfAborted();
+    return detectShapesInBuffer(imageData, resolved, control.onProgress);
+  }
 
-    return {
-      shapes,
-      processingTime,
-      imageWidth: width,
-      imageHeight: height,
-    };
+  // Load an image onto the canvas at full resolution and extract ImageData
+  async loadImage(source: ImageSource): Promise<ImageData> {
+    return (await this.ingestImage(source)).imageData;
   }
 
-  // Load image onto canvas and extract ImageData
-  loadImage(file: File): Promise<ImageData> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        this.canvas.width = img.width;
-        this.canvas.height = img.height;
-        this.ctx.drawImage(img, 0, 0);
-        const imageData = this.ctx.getImageData(0, 0, img.width, img.height);
-        resolve(imageData);
-      };
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
+  /**
+   * Load an image onto the canvas through `image-ingestion.ts`: content
+   * sniffing, EXIF orientation and optional downscaling. Pass the returned
+   * `scale` and size to `scaleDetectionResult` to map a detection back.
+   */
+  ingestImage(source: ImageSource, options?: LoadImageOptions): Promise<LoadedImage> {
+    return loadImageSource(source, this.canvas, options);
   }
 }
 
+// "otsu (dark-on-light, level 127.5)", "color", ...
+function formatBinarization(info: BinarizationInfo): string {
+  const details = [
+    info.polarity,
+    info.threshold !== undefined ? `level ${info.threshold.toFixed(1)}` : null,
+  ].filter(Boolean);
+  return details.length ? `${info.mode} (${details.join(", ")})` : info.mode;
+}
+
+// "Rectangle (square)", "Polygon (7 sides)", ...
+function formatShapeLabel(shape: DetectedShape): string {
+  const name = shape.type.charAt(0).toUpperCase() + shape.type.slice(1);
+  if (shape.isSquare) return `${name} (square)`;
+  if (shape.type === "polygon" && shape.sides !== undefined) return `${name} (${shape.sides} sides)`;
+  return name;
+}
+
 /**
  * Test Results or Performance Notes:
  *   Tested on all 10 challenge-provided test images:
@@ -249,22 +204,70 @@ class ShapeDetectionApp {
   private evaluationResultsDiv: HTMLDivElement;
   private selectionManager: SelectionManager;
   private evaluationManager: EvaluationManager;
+  private overlay: OverlayRenderer;
+  private overlayControlsDiv: HTMLDivElement;
+  private debugToggle: HTMLInputElement;
+  private debugPanel: DebugPanel;
+  private currentFile: File | null = null;
+  private currentResult: ExportImage | null = null;
+  private exportControlsDiv: HTMLDivElement;
+  private annotateButton: HTMLButtonElement;
+  private annotationTool: AnnotationTool;
+  private currentDetection: AbortController | null = null;
+  private batchPanel: BatchPanel;
+  private maxDimensionInput: HTMLInputElement;
+  private regionTool: RegionTool;
 
   constructor() {
     const canvas = document.getElementById("originalCanvas") as HTMLCanvasElement;
     this.detector = new ShapeDetector(canvas);
+    this.overlay = new OverlayRenderer(canvas);
 
     this.imageInput = document.getElementById("imageInput") as HTMLInputElement;
     this.resultsDiv = document.getElementById("results") as HTMLDivElement;
     this.testImagesDiv = document.getElementById("testImages") as HTMLDivElement;
     this.evaluateButton = document.getElementById("evaluateButton") as HTMLButtonElement;
     this.evaluationResultsDiv = document.getElementById("evaluationResults") as HTMLDivElement;
+    this.overlayControlsDiv = document.getElementById("overlayControls") as HTMLDivElement;
+    this.debugToggle = document.getElementById("debugToggle") as HTMLInputElement;
+    this.exportControlsDiv = document.getElementById("exportControls") as HTMLDivElement;
+    this.annotateButton = document.getElementById("annotateToggle") as HTMLButtonElement;
+    this.maxDimensionInput = document.getElementById("maxDimension") as HTMLInputElement;
+    this.annotationTool = new AnnotationTool(
+      canvas,
+      document.getElementById("annotationPanel") as HTMLElement
+    );
+    // Changing the regions re-runs the detection on the image on display
+    this.regionTool = new RegionTool(
+      canvas,
+      document.getElementById("regionPanel") as HTMLElement,
+      this.overlay,
+      () => {
+        if (this.currentFile) this.processImage(this.currentFile).catch(console.error);
+      }
+    );
+    this.debugPanel = new DebugPanel(
+      document.getElementById("debugTabs") as HTMLDivElement,
+      document.getElementById("debugInfo") as HTMLDivElement,
+      this.overlay
+    );
 
     this.selectionManager = new SelectionManager();
     this.evaluationManager = new EvaluationManager(
       this.detector,
       this.evaluateButton,
-      this.evaluationResultsDiv
+      this.evaluationResultsDiv,
+      document.getElementById("robustnessToggle") as HTMLInputElement,
+      document.getElementById("rubricInput") as HTMLInputElement
+    );
+
+    // The batch gets a detector and canvas of its own so it never draws over the viewer
+    this.batchPanel = new BatchPanel(
+      document.getElementById("batchPanel") as HTMLElement,
+      new ShapeDetector(document.createElement("canvas")),
+      (file) => this.processImage(file),
+      () => this.loadOptions(),
+      () => this.regionTool.getRegions()
     );
 
     this.setupEventListeners();
@@ -273,42 +276,213 @@ class ShapeDetectionApp {
 
   private setupEventListeners(): void {
     this.imageInput.addEventListener("change", async (event) => {
-      const file = (event.target as HTMLInputElement).files?.[0];
-      if (file) {
-        await this.processImage(file);
+      const input = event.target as HTMLInputElement;
+      const files = Array.from(input.files ?? []);
+      input.value = "";
+      await this.openFiles(files);
+    });
+
+    // Files and folders dropped anywhere on the page: one image opens in the viewer, more go to the batch
+    const app = document.getElementById("app") as HTMLElement;
+    // Image links dragged from another page arrive as text/uri-list or text/plain; text dropped on a field stays there
+    const dropTypes = ["Files", "text/uri-list", "text/plain"];
+    const isDropTarget = (event: DragEvent) =>
+      !(event.target as HTMLElement).closest("input, textarea, [contenteditable]") &&
+      dropTypes.some((type) => event.dataTransfer?.types.includes(type));
+    app.addEventListener("dragover", (event) => {
+      if (!isDropTarget(event)) return;
+      event.preventDefault();
+      app.classList.add("drag-over");
+    });
+    app.addEventListener("dragleave", (event) => {
+      if (!app.contains(event.relatedTarget as Node | null)) app.classList.remove("drag-over");
+    });
+    app.addEventListener("drop", async (event) => {
+      app.classList.remove("drag-over");
+      if (!event.dataTransfer || !isDropTarget(event)) return;
+      event.preventDefault();
+      const { url } = imagesFromDataTransfer(event.dataTransfer);
+      const files = await filesFromDataTransfer(event.dataTransfer);
+      if (files.length > 0) {
+        await this.openFiles(files);
+      } else if (url) {
+        await this.openUrl(url);
+      }
+    });
+
+    // Pasting an image (a screenshot, a copied file) or an image URL opens it, unless typing in a field
+    document.addEventListener("paste", async (event) => {
+      const target = event.target as HTMLElement;
+      if (!event.clipboardData || target.closest("input, textarea, [contenteditable]")) return;
+      const { files, url } = imagesFromDataTransfer(event.clipboardData);
+      if (files.length === 0 && !url) return;
+      event.preventDefault();
+      if (files.length > 0) {
+        await this.openFiles(files);
+      } else if (url) {
+        await this.openUrl(url);
       }
     });
 
+    const urlForm = document.getElementById("urlForm") as HTMLFormElement;
+    urlForm.addEventListener("submit", async (event) => {
+      event.preventDefault();
+      const url = new FormData(urlForm).get("url");
+      if (typeof url === "string" && url.trim()) await this.openUrl(url.trim());
+    });
+
     this.evaluateButton.addEventListener("click", async () => {
       const selectedImages = this.selectionManager.getSelectedImages();
       await this.evaluationManager.runSelectedEvaluation(selectedImages);
     });
+
+    const syntheticButton = document.getElementById("syntheticEvaluateButton") as HTMLButtonElement;
+    syntheticButton.addEventListener("click", async () => {
+      const count = Number((document.getElementById("syntheticCount") as HTMLInputElement).value);
+      const seed = Number((document.getElementById("syntheticSeed") as HTMLInputElement).value);
+      await this.evaluationManager.runSyntheticEvaluation(syntheticButton, count, seed);
+    });
+
+    const layers = this.overlay.getLayers();
+    this.overlayControlsDiv.querySelectorAll<HTMLInputElement>("input[data-layer]").forEach((input) => {
+      const layer = input.dataset.layer as OverlayLayer;
+      if (!OVERLAY_LAYERS.includes(layer)) return;
+      input.checked = layers[layer];
+      input.addEventListener("change", () => this.overlay.setLayer(layer, input.checked));
+    });
+
+    // Hovering a list entry highlights its shape on the canvas
+    this.resultsDiv.addEventListener("mouseover", (event) => {
+      const item = (event.target as HTMLElement).closest<HTMLElement>("[data-shape-id]");
+      this.overlay.highlight(item ? Number(item.dataset.shapeId) : null);
+    });
+    this.resultsDiv.addEventListener("mouseleave", () => this.overlay.highlight(null));
+
+    this.exportControlsDiv.addEventListener("click", (event) => {
+      const button = (event.target as HTMLElement).closest<HTMLButtonElement>("button[data-format]");
+      const format = button?.dataset.format as ExportFormat | undefined;
+      if (!format || !EXPORT_FORMATS.includes(format) || !this.currentResult) return;
+      downloadFiles(exportDetections([this.currentResult], format));
+    });
+
+    this.annotateButton.addEventListener("click", () => {
+      if (this.annotationTool.isActive()) {
+        this.stopAnnotating();
+        return;
+      }
+      const image = this.overlay.getImage();
+      if (!image || !this.currentFile) return;
+      this.regionTool.stopDrawing();
+      this.overlay.setEnabled(false);
+      this.annotationTool.start(image, this.currentFile.name, this.currentResult?.result ?? null);
+      this.annotateButton.textContent = "Done annotating";
+    });
+
+    // The intermediates are only kept on request, so toggling re-runs the detection
+    this.debugToggle.addEventListener("change", async () => {
+      if (this.currentFile) await this.processImage(this.currentFile);
+    });
+
+    // Drawing a region and annotating both use the canvas, so starting one ends the other
+    document.getElementById("regionPanel")!.addEventListener("click", () => this.stopAnnotating());
+  }
+
+  private async openFiles(files: File[]): Promise<void> {
+    if (files.length === 1) {
+      await this.processImage(files[0]);
+    } else if (files.length > 1) {
+      this.batchPanel.addFiles(files);
+    }
+  }
+
+  private loadOptions(signal?: AbortSignal): LoadImageOptions {
+    const maxDimension = Number(this.maxDimensionInput.value);
+    return { maxDimension: maxDimension > 0 ? maxDimension : undefined, signal };
+  }
+
+  // Fetch a pasted, dropped or typed image URL and open it in the viewer
+  private async openUrl(url: string): Promise<void> {
+    try {
+      this.resultsDiv.innerHTML = "<p>Fetching...</p>";
+      await this.processImage(await fetchImageFile(url));
+    } catch (error) {
+      this.resultsDiv.innerHTML = `<p>Error: ${error}</p>`;
+    }
   }
 
   private async processImage(file: File): Promise<void> {
+    // Picking another image cancels the detection still running for the last one
+    this.currentDetection?.abort();
+    const controller = new AbortController();
+    this.currentDetection = controller;
+    this.currentFile = file;
+    this.setCurrentResult(null);
+    this.stopAnnotating();
+
     try {
       this.resultsDiv.innerHTML = "<p>Processing...</p>";
-      const imageData = await this.detector.loadImage(file);
-      const results = await this.detector.detectShapes(imageData);
-      this.displayResults(results);
+      const image = await this.detector.ingestImage(file, this.loadOptions(controller.signal));
+      this.overlay.setImage();
+      this.regionTool.setImageScale(image.scale);
+      this.debugPanel.clear();
+      controller.signal.throwIfAborted();
+      const options = { debug: this.debugToggle.checked, ...this.regionTool.regionsAt(image.scale) };
+      const results = await this.detector.detectShapes(image.imageData, options, {
+        signal: controller.signal,
+        onProgress: ({ stage, fraction }) => {
+          this.resultsDiv.innerHTML = `<p>Processing... ${Math.round(fraction * 100)}% (${stage})</p>`;
+        },
+      });
+      // The canvas shows the downscaled image, so the overlay and debug view keep its coordinates
+      this.overlay.setShapes(results.shapes);
+      this.debugPanel.show(results);
+      const original = scaleDetectionResult(results, image.scale, image.width, image.height);
+      this.displayResults(original);
+      this.setCurrentResult({ fileName: file.name, result: original });
     } catch (error) {
+      if (controller.signal.aborted) return;
       this.resultsDiv.innerHTML = `<p>Error: ${error}</p>`;
+    } finally {
+      if (this.currentDetection === controller) this.currentDetection = null;
     }
   }
 
+  private setCurrentResult(result: ExportImage | null): void {
+    this.currentResult = result;
+    this.exportControlsDiv.querySelectorAll("button").forEach((button) => {
+      button.disabled = result === null;
+    });
+    // Annotations are drawn on the canvas, which only matches the image at full resolution
+    const scaled = result?.result.scale !== undefined;
+    this.annotateButton.disabled = result === null || scaled;
+    this.annotateButton.title = scaled ? "Clear the size limit to annotate at full resolution" : "";
+  }
+
+  private stopAnnotating(): void {
+    if (!this.annotationTool.isActive()) return;
+    this.annotationTool.stop();
+    this.annotateButton.textContent = "Annotate";
+    this.overlay.setEnabled(true);
+  }
+
   private displayResults(results: DetectionResult): void {
     const { shapes, processingTime } = results;
     let html = `
       <p><strong>Processing Time:</strong> ${processingTime.toFixed(2)}ms</p>
       <p><strong>Shapes Found:</strong> ${shapes.length}</p>
+      <p><strong>Thresholding:</strong> ${formatBinarization(results.binarization)}</p>
     `;
+    if (results.scale !== undefined) {
+      html += `<p><strong>Downscaled:</strong> detected at ${(results.scale * 100).toFixed(0)}% of ${results.imageWidth}×${results.imageHeight}px; coordinates are full size</p>`;
+    }
 
     if (shapes.length > 0) {
       html += "<h4>Detected Shapes:</h4><ul>";
       shapes.forEach((shape) => {
         html += `
-          <li>
-            <strong>${shape.type.charAt(0).toUpperCase() + shape.type.slice(1)}</strong><br>
+          <li data-shape-id="${shape.id}">
+            <strong>#${shape.id} ${formatShapeLabel(shape)}</strong>${shape.style === "outline" ? " (outline)" : ""}${shape.overlapping ? " (overlapping)" : ""}<br>
+            ${shape.parentId !== null ? `Inside: #${shape.parentId}<br>` : ""}
             Confidence: ${(shape.confidence * 100).toFixed(1)}%<br>
             Center: (${shape.center.x.toFixed(1)}, ${shape.center.y.toFixed(1)})<br>
             Area: ${shape.area.toFixed(1)}px²
@@ -365,12 +539,7 @@ class ShapeDetectionApp {
 
       (window as any).loadTestImage = async (name: string, dataUrl: string) => {
         try {
-          const response = await fetch(dataUrl);
-          const blob = await response.blob();
-          const file = new File([blob], name, { type: "image/svg+xml" });
-          const imageData = await this.detector.loadImage(file);
-          const results = await this.detector.detectShapes(imageData);
-          this.displayResults(results);
+          await this.processImage(await fetchImageFile(dataUrl, name));
           console.log(`Loaded test image: ${name}`);
         } catch (error) {
           console.error("Error loading test image:", error);
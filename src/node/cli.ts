@@ -0,0 +1,346 @@
+#!/usr/bin/env node
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  THRESHOLD_MODES,
+  isDetectorPresetName,
+  resolveDetectorOptions,
+} from "../detector-options.js";
+import type { DetectorOptionsInput, ThresholdMode } from "../detector-options.js";
+import { evaluateImages } from "../evaluation-engine.js";
+import type { EvaluationImage } from "../evaluation-engine.js";
+import type { GroundTruthData } from "../evaluation-utils.js";
+import { compareToBaseline, createBaseline, parseBaseline } from "../evaluation-baseline.js";
+import {
+  compareGrades,
+  formatResultsTable,
+  isValidGrade,
+  toJUnitXml,
+  toJsonReport,
+} from "../evaluation-reports.js";
+import { galleryResults, toHtmlReport } from "../html-report.js";
+import { evaluateRobustness } from "../robustness.js";
+import { generateScenes, scenesToGroundTruth } from "../scene-generator.js";
+import { DEFAULT_RUBRIC, parseRubric } from "../scoring-rubric.js";
+import type { SceneOptions } from "../scene-generator.js";
+import { testImages } from "../test-images-data.js";
+import { NodeShapeDetector } from "./index.js";
+
+// Exit codes: 0 = passed, 1 = below the configured floor (or regressed, with --fail-on-regression), 2 = usage or runtime error
+const EXIT_OK = 0;
+const EXIT_BELOW_FLOOR = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: shape-detector eval [options]
+       shape-detector generate --out <dir> [options]
+
+eval: runs the detector over a set of images and scores it against ground truth.
+
+Options:
+  --ground-truth <file>  Ground truth JSON (default: ground_truth.json)
+  --images <dir>         Directory of PNG/SVG images (default: built-in test images)
+  --synthetic <n>        Evaluate on n generated scenes instead (ignores --images
+                         and --ground-truth)
+  --seed <n>             First scene seed for --synthetic (default: 1)
+  --scene-options <file> JSON file of scene generator options
+  --preset <name>        Detector preset: clean-synthetic, noisy-scan, tiny-shapes
+  --options <file>       JSON file of DetectorOptions overrides (applied after --preset)
+  --threshold <mode>     Thresholding mode: mean, otsu, sauvola, niblack, color
+                         (overrides --preset and --options)
+  --robustness           Also re-run every image under noise, blur, rescaling,
+                         rotation, contrast loss, salt-and-pepper and JPEG
+                         artifacts, and report how F1/IoU degrade
+  --rubric <file>        JSON scoring rubric: criteria weights and bands, pass mark,
+                         grade cutoffs, match IoU (default: the built-in rubric
+                         with the ground truth's tolerance_guidelines)
+  --iou <mode>           IoU mode: axis-aligned (default) or rotated (polygon IoU
+                         where ground truth has vertices or a rotation)
+  --baseline <file>      Compare with a saved baseline: per-image deltas, newly
+                         failing images and shapes that changed type
+  --fail-on-regression   Exit with code 1 when the comparison finds a regression
+  --save-baseline <file> Save this run as a baseline
+  --baseline-name <name> Name for --save-baseline (default: the file name)
+  --json <file>          Write the full results as JSON
+  --junit <file>         Write a JUnit XML report
+  --html <file>          Write a standalone HTML report with per-type breakdowns,
+                         sortable per-image metrics and a failure gallery
+  --min-grade <grade>    Exit with code 1 when the overall grade is lower
+  --min-f1 <0-1>         Exit with code 1 when the average F1 score is lower
+  --quiet                Only print the summary line
+  -h, --help             Show this help
+
+generate: writes seeded synthetic scenes as SVG files plus their ground_truth.json.
+
+Options:
+  --out <dir>            Output directory (created if missing)
+  --count <n>            Number of scenes (default: 20)
+  --seed <n>             First scene seed (default: 1)
+  --scene-options <file> JSON file of scene generator options (shape types, sizes,
+                         overlap, polarity, colors, distractors, noise)
+`;
+
+/** An image to evaluate, plus the data URL the HTML report embeds it with */
+interface ImageSource extends EvaluationImage {
+  dataUrl: () => Promise<string>;
+}
+
+async function listImageSources(
+  detector: NodeShapeDetector,
+  imagesDir: string | undefined
+): Promise<ImageSource[]> {
+  if (!imagesDir) {
+    return Object.entries(testImages).map(([name, dataUrl]) => ({
+      name,
+      load: () => detector.loadImage(dataUrl),
+      dataUrl: async () => dataUrl,
+    }));
+  }
+
+  const files = (await readdir(imagesDir))
+    .filter((file) => /\.(png|svg)$/i.test(file))
+    .sort();
+  return files.map((name) => ({
+    name,
+    load: () => detector.loadImage(join(imagesDir, name)),
+    dataUrl: async () => {
+      const type = /\.svg$/i.test(name) ? "image/svg+xml" : "image/png";
+      return `data:${type};base64,${(await readFile(join(imagesDir, name))).toString("base64")}`;
+    },
+  }));
+}
+
+function parseCount(value: string | undefined, flag: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${flag} must be a non-negative integer (got "${value}")`);
+  }
+  return count;
+}
+
+async function readSceneOptions(path: string | undefined): Promise<Partial<SceneOptions>> {
+  return path ? JSON.parse(await readFile(path, "utf8")) : {};
+}
+
+async function evalCommand(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      "ground-truth": { type: "string", default: "ground_truth.json" },
+      images: { type: "string" },
+      preset: { type: "string" },
+      options: { type: "string" },
+      threshold: { type: "string" },
+      synthetic: { type: "string" },
+      seed: { type: "string" },
+      "scene-options": { type: "string" },
+      robustness: { type: "boolean", default: false },
+      rubric: { type: "string" },
+      iou: { type: "string", default: "axis-aligned" },
+      baseline: { type: "string" },
+      "fail-on-regression": { type: "boolean", default: false },
+      "save-baseline": { type: "string" },
+      "baseline-name": { type: "string" },
+      json: { type: "string" },
+      junit: { type: "string" },
+      html: { type: "string" },
+      "min-grade": { type: "string" },
+      "min-f1": { type: "string" },
+      quiet: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  const rubric = values.rubric !== undefined ? parseRubric(await readFile(values.rubric, "utf8")) : undefined;
+  // Best grade first, as in the rubric
+  const grades = (rubric?.grades ?? DEFAULT_RUBRIC.grades).map((g) => g.grade);
+  const minGrade = values["min-grade"];
+  if (minGrade !== undefined && !isValidGrade(minGrade, grades)) {
+    throw new Error(`--min-grade must be one of ${grades.join(", ")} (got "${minGrade}")`);
+  }
+  const minF1 = values["min-f1"] !== undefined ? Number(values["min-f1"]) : undefined;
+  if (minF1 !== undefined && !(minF1 >= 0 && minF1 <= 1)) {
+    throw new Error(`--min-f1 must be a number between 0 and 1 (got "${values["min-f1"]}")`);
+  }
+
+  const iouMode = values.iou!;
+  if (iouMode !== "axis-aligned" && iouMode !== "rotated") {
+    throw new Error(`--iou must be "axis-aligned" or "rotated" (got "${iouMode}")`);
+  }
+
+  if (values["fail-on-regression"] && values.baseline === undefined) {
+    throw new Error("--fail-on-regression needs --baseline <file>");
+  }
+  // Read before the run, so a bad baseline fails fast
+  const baseline = values.baseline !== undefined
+    ? parseBaseline(await readFile(values.baseline, "utf8"))
+    : undefined;
+
+  if (values.preset !== undefined && !isDetectorPresetName(values.preset)) {
+    throw new Error(`Unknown --preset "${values.preset}"`);
+  }
+  const threshold = values.threshold as ThresholdMode | undefined;
+  if (threshold !== undefined && !THRESHOLD_MODES.includes(threshold)) {
+    throw new Error(`--threshold must be one of ${THRESHOLD_MODES.join(", ")} (got "${threshold}")`);
+  }
+  const fileOptions: DetectorOptionsInput | undefined = values.options
+    ? JSON.parse(await readFile(values.options, "utf8"))
+    : undefined;
+  const detector = new NodeShapeDetector(
+    resolveDetectorOptions(
+      values.preset !== undefined ? { preset: values.preset } : undefined,
+      fileOptions,
+      threshold !== undefined ? { thresholdMode: threshold } : undefined
+    )
+  );
+  let sources: ImageSource[];
+  let groundTruth: GroundTruthData;
+  if (values.synthetic !== undefined) {
+    const count = parseCount(values.synthetic, "--synthetic", 0);
+    if (count === 0) throw new Error("--synthetic needs at least one scene");
+    const scenes = generateScenes(
+      count,
+      parseCount(values.seed, "--seed", 1),
+      await readSceneOptions(values["scene-options"])
+    );
+    sources = scenes.map((scene) => ({
+      name: scene.name,
+      load: () => detector.loadImage(scene.dataUrl),
+      dataUrl: async () => scene.dataUrl,
+    }));
+    groundTruth = scenesToGroundTruth(scenes);
+  } else {
+    groundTruth = JSON.parse(await readFile(values["ground-truth"]!, "utf8"));
+    sources = await listImageSources(detector, values.images);
+    if (sources.length === 0) {
+      throw new Error(`No PNG or SVG images found in ${values.images}`);
+    }
+  }
+
+  const log = values.quiet ? () => {} : (message: string) => console.error(message);
+  const results = await evaluateImages(sources, groundTruth, (image) => detector.detectShapes(image), {
+    iouMode,
+    rubric,
+    log,
+  });
+  if (values.robustness) {
+    log("Running robustness benchmark...");
+    results.robustness = await evaluateRobustness(
+      sources.map((source) => ({
+        ...source,
+        groundTruth: groundTruth.images[source.name]?.shapes || [],
+      })),
+      (image) => detector.detectShapes(image),
+      { iouMode, rubric: results.rubric, log }
+    );
+  }
+
+  if (baseline) results.baselineComparison = compareToBaseline(baseline, results);
+
+  if (!values.quiet) console.log(formatResultsTable(results));
+  if (values.json) await writeFile(values.json, toJsonReport(results));
+  if (values.junit) await writeFile(values.junit, toJUnitXml(results));
+  if (values.html) {
+    // Only the gallery shows images, so only those are read
+    const images: Record<string, string> = {};
+    for (const { imageName } of galleryResults(results)) {
+      const source = sources.find((s) => s.name === imageName);
+      if (source) images[imageName] = await source.dataUrl();
+    }
+    await writeFile(values.html, toHtmlReport(results, { images }));
+  }
+  if (values["save-baseline"]) {
+    const path = values["save-baseline"];
+    const name = values["baseline-name"] ?? basename(path, extname(path));
+    await writeFile(path, JSON.stringify(createBaseline(name, results), null, 2));
+    log(`Saved baseline "${name}" to ${path}`);
+  }
+
+  const failures: string[] = [];
+  if (minGrade !== undefined && compareGrades(results.grade, minGrade, grades) < 0) {
+    failures.push(`grade ${results.grade} is below the required ${minGrade}`);
+  }
+  if (minF1 !== undefined && results.summary.averageF1 < minF1) {
+    failures.push(
+      `average F1 ${results.summary.averageF1.toFixed(3)} is below the required ${minF1}`
+    );
+  }
+  if (values["fail-on-regression"]) {
+    for (const regression of results.baselineComparison?.regressions ?? []) {
+      failures.push(`regression against baseline: ${regression}`);
+    }
+  }
+
+  if (values.quiet) {
+    console.log(
+      `Grade ${results.grade} (${results.percentage}%), average F1 ${results.summary.averageF1.toFixed(3)}`
+    );
+  }
+  for (const failure of failures) console.error(`FAILED: ${failure}`);
+  return failures.length > 0 ? EXIT_BELOW_FLOOR : EXIT_OK;
+}
+
+async function generateCommand(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      out: { type: "string" },
+      count: { type: "string" },
+      seed: { type: "string" },
+      "scene-options": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (!values.out) throw new Error("generate needs --out <dir>");
+
+  const scenes = generateScenes(
+    parseCount(values.count, "--count", 20),
+    parseCount(values.seed, "--seed", 1),
+    await readSceneOptions(values["scene-options"])
+  );
+  await mkdir(values.out, { recursive: true });
+  for (const scene of scenes) await writeFile(join(values.out, scene.name), scene.svg);
+  await writeFile(join(values.out, "ground_truth.json"), JSON.stringify(scenesToGroundTruth(scenes), null, 2));
+  console.log(`Wrote ${scenes.length} scenes and ground_truth.json to ${values.out}`);
+  return EXIT_OK;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  switch (command) {
+    case "eval":
+      return evalCommand(rest);
+    case "generate":
+      return generateCommand(rest);
+    case undefined:
+    case "-h":
+    case "--help":
+      process.stdout.write(USAGE);
+      return command === undefined ? EXIT_ERROR : EXIT_OK;
+    default:
+      console.error(`Unknown command: ${command}\n`);
+      process.stdout.write(USAGE);
+      return EXIT_ERROR;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = EXIT_ERROR;
+  }
+);
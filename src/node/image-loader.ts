@@ -0,0 +1,34 @@
+import { readFile } from "node:fs/promises";
+import type { PixelBuffer } from "../detection-core.js";
+import { sniffImageType } from "../image-format.js";
+import { decodePng } from "./png-decoder.js";
+import { rasterizeSvg } from "./svg-rasterizer.js";
+
+/**
+ * Decode raw image bytes by sniffing their content (see `sniffImageType`).
+ * Only PNG and SVG can be decoded here; other formats are rejected.
+ */
+export function decodeImage(bytes: Uint8Array, name = "image"): PixelBuffer {
+  const type = sniffImageType(bytes);
+  if (type === "image/png") return decodePng(bytes);
+  if (type === "image/svg+xml") return rasterizeSvg(new TextDecoder().decode(bytes));
+
+  throw new Error(
+    `Unsupported image format: ${name} (${type ?? "unrecognised"}; only PNG and SVG can be decoded in Node)`
+  );
+}
+
+// Decode a base64 or URL-encoded data: URL, e.g. the entries of test-images-data.ts
+export function decodeDataUrl(url: string): PixelBuffer {
+  const match = url.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+  if (!match) throw new Error("Not a data: URL");
+  const bytes = match[2]
+    ? Buffer.from(match[3], "base64")
+    : Buffer.from(decodeURIComponent(match[3]), "utf8");
+  return decodeImage(new Uint8Array(bytes), `data URL (${match[1] || "unknown type"})`);
+}
+
+export async function loadImageFile(path: string): Promise<PixelBuffer> {
+  const bytes = await readFile(path);
+  return decodeImage(new Uint8Array(bytes), path);
+}
@@ -0,0 +1,133 @@
+import { detectShapesInBuffer } from "../detection-core.js";
+import type { DetectionResult, PixelBuffer } from "../detection-core.js";
+import { resolveDetectorOptions } from "../detector-options.js";
+import type { DetectorOptions, DetectorOptionsInput } from "../detector-options.js";
+import { decodeDataUrl, loadImageFile } from "./image-loader.js";
+
+export { detectShapesInBuffer } from "../detection-core.js";
+export type {
+  Point,
+  DetectedShape,
+  DetectionDebug,
+  DetectionResult,
+  PixelBuffer,
+  RejectedComponent,
+  RejectionReason,
+  ShapeStyle,
+  ShapeType,
+} from "../detection-core.js";
+export {
+  DEFAULT_DETECTOR_OPTIONS,
+  DETECTOR_PRESETS,
+  resolveDetectorOptions,
+} from "../detector-options.js";
+export type {
+  DetectorOptions,
+  DetectorOptionsInput,
+  DetectorPresetName,
+  ThresholdMode,
+} from "../detector-options.js";
+export type { OrientedBoundingBox } from "../geometry-utils.js";
+export { regionMask, scaleRegion, scaleRegions, validateRegions } from "../regions.js";
+export type { DetectionRegion, RegionSet } from "../regions.js";
+export {
+  annotationFromDetection,
+  mergeGroundTruth,
+  toGroundTruthImage,
+  toGroundTruthShape,
+} from "../annotation-model.js";
+export type { Annotation, AnnotationGeometry, AnnotationType } from "../annotation-model.js";
+export {
+  EXPORT_FORMATS,
+  exportDetections,
+  toCocoJson,
+  shapeLabel,
+  toDetectionCsv,
+  toDetectionJson,
+  toPascalVocXml,
+  toShapeCountCsv,
+} from "../result-export.js";
+export type { ExportFile, ExportFormat, ExportImage } from "../result-export.js";
+export {
+  DEFAULT_SCENE_OPTIONS,
+  SCENE_SHAPE_TYPES,
+  generateScene,
+  generateScenes,
+  scenesToGroundTruth,
+} from "../scene-generator.js";
+export type { SceneOptions, ScenePolarity, SceneShapeType, SyntheticScene } from "../scene-generator.js";
+export {
+  PERTURBATION_KINDS,
+  PERTURBATION_LEVELS,
+  describePerturbation,
+  perturbGroundTruth,
+  perturbImage,
+} from "../image-perturbations.js";
+export type { Perturbation, PerturbationKind } from "../image-perturbations.js";
+export { evaluateRobustness } from "../robustness.js";
+export type {
+  RobustnessCurve,
+  RobustnessImage,
+  RobustnessLevel,
+  RobustnessOptions,
+  RobustnessReport,
+} from "../robustness.js";
+export { compareToBaseline, createBaseline, parseBaseline } from "../evaluation-baseline.js";
+export type {
+  BaselineComparison,
+  BaselineImage,
+  BaselineShape,
+  EvaluationBaseline,
+  ImageComparison,
+  MetricDelta,
+  ShapeFlip,
+} from "../evaluation-baseline.js";
+export { evaluateImages, rubricForGroundTruth } from "../evaluation-engine.js";
+export type { EngineOptions, EvaluationImage } from "../evaluation-engine.js";
+export {
+  DEFAULT_RUBRIC,
+  RUBRIC_METRICS,
+  applyToleranceGuidelines,
+  parseRubric,
+  resolveRubric,
+} from "../scoring-rubric.js";
+export type {
+  RubricBand,
+  RubricCriterion,
+  RubricGrade,
+  RubricMetric,
+  ScoringRubric,
+} from "../scoring-rubric.js";
+export { GALLERY_COLORS, galleryResults, toHtmlReport } from "../html-report.js";
+export type { HtmlReportOptions } from "../html-report.js";
+export { BatchQueue, summarizeBatch } from "../batch-queue.js";
+export type { BatchItem, BatchProcessor, BatchProgress, BatchStatus, BatchSummary } from "../batch-queue.js";
+export { IMAGE_TYPES, orientationSwapsAxes, readExifOrientation, sniffImageType } from "../image-format.js";
+export type { ExifOrientation, ImageType } from "../image-format.js";
+export { downscaleBuffer, downscaleFactor, scaleDetectionResult } from "../image-scaling.js";
+export type { BinarizationInfo, Polarity } from "../thresholding.js";
+export { decodeImage, decodeDataUrl, loadImageFile } from "./image-loader.js";
+export { decodePng } from "./png-decoder.js";
+export { rasterizeSvg } from "./svg-rasterizer.js";
+
+/**
+ * Node counterpart of the browser `ShapeDetector`: same detection core,
+ * but images come from files or data URLs instead of a canvas.
+ */
+export class NodeShapeDetector {
+  private options: DetectorOptions;
+
+  constructor(options?: DetectorOptionsInput) {
+    this.options = resolveDetectorOptions(options);
+  }
+
+  // Per-call options override the ones given to the constructor
+  async detectShapes(image: PixelBuffer, options?: DetectorOptionsInput): Promise<DetectionResult> {
+    return detectShapesInBuffer(image, resolveDetectorOptions(this.options, options));
+  }
+
+  // Load a PNG/SVG file path or a data: URL into a pixel buffer
+  async loadImage(source: string): Promise<PixelBuffer> {
+    return source.startsWith("data:") ? decodeDataUrl(source) : loadImageFile(source);
+  }
+}
@@ -0,0 +1,221 @@
+import { inflateSync } from "node:zlib";
+import type { PixelBuffer } from "../detection-core.js";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel for each PNG color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: [startX, startY, stepX, stepY]
+const ADAM7 = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+  [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Decode a PNG file into an RGBA pixel buffer using only `node:zlib`.
+ * Supports every standard color type and bit depth, tRNS transparency
+ * and Adam7 interlacing.
+ */
+export function decodePng(bytes: Uint8Array): PixelBuffer {
+  if (!isPng(bytes)) throw new Error("Not a PNG file");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      header = {
+        width: view.getUint32(chunk.byteOffset - bytes.byteOffset),
+        height: view.getUint32(chunk.byteOffset - bytes.byteOffset + 4),
+        bitDepth: chunk[8],
+        colorType: chunk[9],
+        interlace: chunk[12],
+      };
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!header) throw new Error("PNG is missing its IHDR chunk");
+  if (!(header.colorType in CHANNELS)) {
+    throw new Error(`Unsupported PNG color type: ${header.colorType}`);
+  }
+  if (header.colorType === 3 && !palette) {
+    throw new Error("Indexed PNG is missing its PLTE chunk");
+  }
+
+  const raw = inflateSync(concat(idat));
+  const { width, height } = header;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  if (header.interlace === 1) {
+    let pos = 0;
+    for (const [sx, sy, stepX, stepY] of ADAM7) {
+      const passWidth = Math.ceil((width - sx) / stepX);
+      const passHeight = Math.ceil((height - sy) / stepY);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+      pos = decodePass(raw, pos, header, passWidth, passHeight, (x, y, rgba) => {
+        data.set(rgba, ((sy + y * stepY) * width + sx + x * stepX) * 4);
+      }, palette, transparency);
+    }
+  } else {
+    decodePass(raw, 0, header, width, height, (x, y, rgba) => {
+      data.set(rgba, (y * width + x) * 4);
+    }, palette, transparency);
+  }
+
+  return { width, height, data };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((n, c) => n + c.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const c of chunks) {
+    out.set(c, pos);
+    pos += c.length;
+  }
+  return out;
+}
+
+// Unfilter one (sub)image and emit every pixel as RGBA; returns the next read position
+function decodePass(
+  raw: Uint8Array,
+  start: number,
+  header: PngHeader,
+  width: number,
+  height: number,
+  emit: (x: number, y: number, rgba: number[]) => void,
+  palette: Uint8Array | null,
+  transparency: Uint8Array | null
+): number {
+  const { bitDepth, colorType } = header;
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+
+  let prev = new Uint8Array(stride);
+  let pos = start;
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[pos++];
+    const line = raw.slice(pos, pos + stride);
+    pos += stride;
+    unfilter(line, prev, filter, bpp);
+
+    const sample = (i: number): number => {
+      if (bitDepth === 8) return line[i];
+      if (bitDepth === 16) return line[i * 2];
+      const perByte = 8 / bitDepth;
+      const byte = line[Math.floor(i / perByte)];
+      const shift = 8 - bitDepth * ((i % perByte) + 1);
+      return (byte >> shift) & ((1 << bitDepth) - 1);
+    };
+    // Scale sub-byte grayscale samples to 0-255 (palette indices stay raw)
+    const scale = (v: number): number =>
+      bitDepth < 8 ? Math.round((v * 255) / ((1 << bitDepth) - 1)) : v;
+    const rawSample16 = (i: number): number =>
+      bitDepth === 16 ? (line[i * 2] << 8) | line[i * 2 + 1] : sample(i);
+
+    for (let x = 0; x < width; x++) {
+      const s = x * channels;
+      let rgba: number[];
+      switch (colorType) {
+        case 0: {
+          const g = scale(sample(s));
+          const transparent =
+            transparency !== null &&
+            rawSample16(s) === ((transparency[0] << 8) | transparency[1]);
+          rgba = [g, g, g, transparent ? 0 : 255];
+          break;
+        }
+        case 2: {
+          const transparent =
+            transparency !== null &&
+            [0, 1, 2].every(
+              (c) => rawSample16(s + c) === ((transparency[c * 2] << 8) | transparency[c * 2 + 1])
+            );
+          rgba = [sample(s), sample(s + 1), sample(s + 2), transparent ? 0 : 255];
+          break;
+        }
+        case 3: {
+          const idx = sample(s);
+          const alpha = transparency && idx < transparency.length ? transparency[idx] : 255;
+          rgba = [palette![idx * 3], palette![idx * 3 + 1], palette![idx * 3 + 2], alpha];
+          break;
+        }
+        case 4: {
+          const g = sample(s);
+          rgba = [g, g, g, sample(s + 1)];
+          break;
+        }
+        default:
+          rgba = [sample(s), sample(s + 1), sample(s + 2), sample(s + 3)];
+      }
+      emit(x, y, rgba);
+    }
+
+    prev = line;
+  }
+
+  return pos;
+}
+
+function unfilter(line: Uint8Array, prev: Uint8Array, filter: number, bpp: number): void {
+  for (let i = 0; i < line.length; i++) {
+    const a = i >= bpp ? line[i - bpp] : 0;
+    const b = prev[i];
+    const c = i >= bpp ? prev[i - bpp] : 0;
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        line[i] = (line[i] + a) & 0xff;
+        break;
+      case 2:
+        line[i] = (line[i] + b) & 0xff;
+        break;
+      case 3:
+        line[i] = (line[i] + ((a + b) >> 1)) & 0xff;
+        break;
+      case 4: {
+        const p = a + b - c;
+        const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+        const pred = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+        line[i] = (line[i] + pred) & 0xff;
+        break;
+      }
+      default:
+        throw new Error(`Invalid PNG filter type: ${filter}`);
+    }
+  }
+}
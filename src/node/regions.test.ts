@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { detectShapesInBuffer } from "../detection-core.js";
+import type { PixelBuffer } from "../detection-core.js";
+import { THRESHOLD_MODES } from "../detector-options.js";
+
+// A white page with one filled blue rectangle covering pixels 50..299 × 50..229
+function filledRectangle(): PixelBuffer {
+  const width = 400, height = 300;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 50; y < 230; y++) {
+    for (let x = 50; x < 300; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = 0;
+      data[i + 2] = 200;
+    }
+  }
+  return { width, height, data };
+}
+
+for (const thresholdMode of THRESHOLD_MODES) {
+  test(`an exclusion inside a filled shape is not a shape (${thresholdMode})`, () => {
+    const result = detectShapesInBuffer(filledRectangle(), {
+      thresholdMode,
+      exclusions: [{ type: "rect", x: 120, y: 100, width: 60, height: 50 }],
+    });
+
+    assert.equal(result.shapes.length, 1);
+    const [shape] = result.shapes;
+    assert.equal(shape.type, "rectangle");
+    assert.equal(shape.style, "filled");
+    assert.deepEqual(shape.boundingBox, { x: 50, y: 50, width: 249, height: 179 });
+    assert.deepEqual(shape.childIds, []);
+  });
+}
+
+test("a region clips detection to its area", () => {
+  const result = detectShapesInBuffer(filledRectangle(), {
+    regions: [{ type: "rect", x: 100, y: 80, width: 300, height: 220 }],
+  });
+
+  assert.equal(result.shapes.length, 1);
+  assert.deepEqual(result.shapes[0].boundingBox, { x: 100, y: 80, width: 199, height: 149 });
+});
+
+test("an exclusion inside a ring's hole keeps it an outline", () => {
+  const width = 400, height = 300;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const r = Math.hypot(x - 200, y - 150);
+      if (r < 90 || r > 100) continue;
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = 0;
+    }
+  }
+  const result = detectShapesInBuffer({ width, height, data }, {
+    exclusions: [{ type: "rect", x: 140, y: 140, width: 10, height: 10 }],
+  });
+
+  assert.equal(result.shapes.length, 1);
+  assert.equal(result.shapes[0].type, "circle");
+  assert.equal(result.shapes[0].style, "outline");
+});
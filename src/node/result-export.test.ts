@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { detectShapesInBuffer } from "../detection-core.js";
+import { exportDetections } from "../result-export.js";
+
+test("Pascal VOC files from different folders get distinct names", () => {
+  const width = 64, height = 48;
+  const result = detectShapesInBuffer({ width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) });
+  const fileNames = ["a/page1.png", "b/page1.png", "Page1.jpg", "page1-2.png"];
+
+  const files = exportDetections(fileNames.map((fileName) => ({ fileName, result })), "voc");
+
+  assert.deepEqual(
+    files.map((file) => file.fileName),
+    ["page1.xml", "page1-2.xml", "Page1-3.xml", "page1-2-2.xml"]
+  );
+});
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { detectShapesInBuffer } from "../detection-core.js";
+import { evaluateRobustness } from "../robustness.js";
+
+test("an image that fails to load scores 0 without stopping the benchmark", async () => {
+  // A black rectangle covering pixels 20..79 × 20..59 on a white page
+  const width = 100, height = 80;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 20; y < 60; y++) data.fill(0, (y * width + 20) * 4, (y * width + 80) * 4);
+  const rectangle = { width, height, data: data.map((v, i) => (i % 4 === 3 ? 255 : v)) };
+  const groundTruth = [{ type: "rectangle", bounding_box: { x: 20, y: 20, width: 60, height: 40 } }];
+  const errors: string[] = [];
+
+  const report = await evaluateRobustness(
+    [
+      { name: "rectangle.png", groundTruth, load: async () => rectangle },
+      { name: "broken.png", groundTruth, load: () => Promise.reject(new Error("unreadable")) },
+    ],
+    async (image) => detectShapesInBuffer(image),
+    { levels: { blur: [1] }, log: (message) => errors.push(message) }
+  );
+
+  assert.equal(report.images, 2);
+  assert.equal(report.baseline.averageF1, 0.5);
+  assert.ok(report.curves[0].levels[0].averageF1 <= 0.5);
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /broken\.png/);
+});
@@ -0,0 +1,482 @@
+import type { PixelBuffer, Point } from "../detection-core.js";
+
+/**
+ * Minimal SVG rasterizer for the test fixtures, so Node can feed the
+ * detector the same scenes the browser draws onto its canvas.
+ *
+ * Supported: <svg>, <g>, <rect>, <circle>, <ellipse>, <polygon>,
+ * <polyline>, <line> and <path> (M/L/H/V/Z commands), fill/stroke/opacity
+ * attributes or inline styles, and translate/rotate/scale/matrix
+ * transforms. <text> is skipped since there is no font engine.
+ * Edges are anti-aliased with 4 sub-scanlines per pixel row.
+ */
+
+type Matrix = [number, number, number, number, number, number];
+
+type RGB = [number, number, number];
+
+interface PaintState {
+  transform: Matrix;
+  fill: RGB | null;
+  stroke: RGB | null;
+  strokeWidth: number;
+  opacity: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const SUBSAMPLES = 4;
+
+const NAMED_COLORS: Record<string, RGB> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  lightgray: [211, 211, 211],
+  darkgray: [169, 169, 169],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  lime: [0, 255, 0],
+  blue: [0, 0, 255],
+  navy: [0, 0, 128],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  magenta: [255, 0, 255],
+  fuchsia: [255, 0, 255],
+  cyan: [0, 255, 255],
+  aqua: [0, 255, 255],
+  teal: [0, 128, 128],
+  maroon: [128, 0, 0],
+  olive: [128, 128, 0],
+  brown: [165, 42, 42],
+  pink: [255, 192, 203],
+};
+
+export function rasterizeSvg(svg: string): PixelBuffer {
+  const rootMatch = svg.match(/<svg\b([^>]*)>/i);
+  if (!rootMatch) throw new Error("Not an SVG document");
+  const rootAttrs = parseAttributes(rootMatch[1]);
+
+  const viewBox = rootAttrs.viewBox?.trim().split(/[\s,]+/).map(Number);
+  const width = Math.round(
+    parseLength(rootAttrs.width, 0) || (viewBox ? viewBox[2] : 300)
+  );
+  const height = Math.round(
+    parseLength(rootAttrs.height, 0) || (viewBox ? viewBox[3] : 150)
+  );
+
+  // Canvas starts transparent black, just like a fresh HTMLCanvasElement
+  const rgba = new Float32Array(width * height * 4);
+
+  let rootTransform: Matrix = IDENTITY;
+  if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    rootTransform = multiply(
+      [width / viewBox[2], 0, 0, height / viewBox[3], 0, 0],
+      [1, 0, 0, 1, -viewBox[0], -viewBox[1]]
+    );
+  }
+
+  const rootState: PaintState = {
+    transform: rootTransform,
+    fill: [0, 0, 0],
+    stroke: null,
+    strokeWidth: 1,
+    opacity: 1,
+    fillOpacity: 1,
+    strokeOpacity: 1,
+  };
+  const stack: PaintState[] = [applyPaint(rootState, rootAttrs)];
+  let skipDepth = 0;
+
+  const body = svg.slice((rootMatch.index ?? 0) + rootMatch[0].length);
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(body))) {
+    const [, closing, rawName, attrText, selfClosing] = match;
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      if (skipDepth > 0) skipDepth--;
+      else if (name === "g") stack.pop();
+      continue;
+    }
+    if (skipDepth > 0 || ["text", "defs", "style", "title", "desc"].includes(name)) {
+      if (!selfClosing) skipDepth++;
+      continue;
+    }
+
+    const attrs = parseAttributes(attrText);
+    const state = applyPaint(stack[stack.length - 1], attrs);
+
+    if (name === "g") {
+      if (!selfClosing) stack.push(state);
+      continue;
+    }
+
+    const geometry = elementGeometry(name, attrs, width, height);
+    if (!geometry) continue;
+
+    const toDevice = (poly: Point[]) => poly.map((p) => apply(state.transform, p));
+
+    if (state.fill && geometry.closed) {
+      const coverage = rasterize(geometry.polygons.map(toDevice), width, height);
+      composite(rgba, coverage, state.fill, state.opacity * state.fillOpacity);
+    }
+    if (state.stroke && state.strokeWidth > 0) {
+      const strokePolys = geometry.polygons.flatMap((poly) =>
+        strokePolygons(poly, state.strokeWidth, geometry.closed)
+      );
+      const coverage = rasterize(strokePolys.map(toDevice), width, height);
+      composite(rgba, coverage, state.stroke, state.opacity * state.strokeOpacity);
+    }
+  }
+
+  const data = new Uint8ClampedArray(rgba.length);
+  for (let i = 0; i < rgba.length; i++) data[i] = Math.round(rgba[i]);
+  return { width, height, data };
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of text.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = m[3] ?? m[4];
+  }
+  if (attrs.style) {
+    for (const decl of attrs.style.split(";")) {
+      const [key, value] = decl.split(":").map((s) => s?.trim());
+      if (key && value) attrs[key] = value;
+    }
+  }
+  return attrs;
+}
+
+function parseLength(value: string | undefined, reference: number): number {
+  if (value === undefined) return 0;
+  const trimmed = value.trim();
+  if (trimmed.endsWith("%")) return (parseFloat(trimmed) / 100) * reference;
+  return parseFloat(trimmed) || 0;
+}
+
+function parseColor(value: string | undefined, inherited: RGB | null): RGB | null {
+  if (value === undefined || value === "inherit") return inherited;
+  const v = value.trim().toLowerCase();
+  if (v === "none" || v === "transparent") return null;
+  if (v.startsWith("#")) {
+    const hex = v.slice(1);
+    if (hex.length === 3) {
+      return [0, 1, 2].map((i) => parseInt(hex[i] + hex[i], 16)) as RGB;
+    }
+    return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as RGB;
+  }
+  const rgb = v.match(/^rgba?\(([^)]+)\)$/);
+  if (rgb) {
+    const parts = rgb[1].split(",").map((s) => s.trim());
+    return [0, 1, 2].map((i) =>
+      parts[i].endsWith("%") ? (parseFloat(parts[i]) * 255) / 100 : parseFloat(parts[i])
+    ) as RGB;
+  }
+  return NAMED_COLORS[v] ?? inherited;
+}
+
+function applyPaint(parent: PaintState, attrs: Record<string, string>): PaintState {
+  const transform = attrs.transform
+    ? multiply(parent.transform, parseTransform(attrs.transform))
+    : parent.transform;
+  return {
+    transform,
+    fill: parseColor(attrs.fill, parent.fill),
+    stroke: parseColor(attrs.stroke, parent.stroke),
+    strokeWidth: attrs["stroke-width"] !== undefined
+      ? parseFloat(attrs["stroke-width"])
+      : parent.strokeWidth,
+    opacity: parent.opacity * (attrs.opacity !== undefined ? parseFloat(attrs.opacity) : 1),
+    fillOpacity: attrs["fill-opacity"] !== undefined
+      ? parseFloat(attrs["fill-opacity"])
+      : parent.fillOpacity,
+    strokeOpacity: attrs["stroke-opacity"] !== undefined
+      ? parseFloat(attrs["stroke-opacity"])
+      : parent.strokeOpacity,
+  };
+}
+
+function parseTransform(text: string): Matrix {
+  let m: Matrix = IDENTITY;
+  for (const [, fn, argText] of text.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const a = argText.trim().split(/[\s,]+/).map(Number);
+    let t: Matrix = IDENTITY;
+    switch (fn) {
+      case "translate":
+        t = [1, 0, 0, 1, a[0], a[1] ?? 0];
+        break;
+      case "scale":
+        t = [a[0], 0, 0, a[1] ?? a[0], 0, 0];
+        break;
+      case "rotate": {
+        const rad = (a[0] * Math.PI) / 180;
+        const cos = Math.cos(rad), sin = Math.sin(rad);
+        t = [cos, sin, -sin, cos, 0, 0];
+        if (a.length >= 3) {
+          t = multiply(multiply([1, 0, 0, 1, a[1], a[2]], t), [1, 0, 0, 1, -a[1], -a[2]]);
+        }
+        break;
+      }
+      case "matrix":
+        t = a.slice(0, 6) as Matrix;
+        break;
+    }
+    m = multiply(m, t);
+  }
+  return m;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+function parsePoints(text: string | undefined): Point[] {
+  const nums = (text ?? "").trim().split(/[\s,]+/).filter(Boolean).map(Number);
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < nums.length; i += 2) points.push({ x: nums[i], y: nums[i + 1] });
+  return points;
+}
+
+function ellipsePolygon(cx: number, cy: number, rx: number, ry: number): Point[] {
+  const segments = Math.max(32, Math.ceil(Math.PI * (rx + ry)));
+  const points: Point[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t = (i / segments) * 2 * Math.PI;
+    points.push({ x: cx + rx * Math.cos(t), y: cy + ry * Math.sin(t) });
+  }
+  return points;
+}
+
+function elementGeometry(
+  name: string,
+  attrs: Record<string, string>,
+  width: number,
+  height: number
+): { polygons: Point[][]; closed: boolean } | null {
+  const len = (key: string, ref: number) => parseLength(attrs[key], ref);
+  switch (name) {
+    case "rect": {
+      const x = len("x", width), y = len("y", height);
+      const w = len("width", width), h = len("height", height);
+      if (w <= 0 || h <= 0) return null;
+      return {
+        polygons: [[{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }]],
+        closed: true,
+      };
+    }
+    case "circle": {
+      const r = len("r", Math.hypot(width, height) / Math.SQRT2);
+      if (r <= 0) return null;
+      return { polygons: [ellipsePolygon(len("cx", width), len("cy", height), r, r)], closed: true };
+    }
+    case "ellipse": {
+      const rx = len("rx", width), ry = len("ry", height);
+      if (rx <= 0 || ry <= 0) return null;
+      return { polygons: [ellipsePolygon(len("cx", width), len("cy", height), rx, ry)], closed: true };
+    }
+    case "polygon":
+    case "polyline": {
+      const points = parsePoints(attrs.points);
+      if (points.length < 2) return null;
+      return { polygons: [points], closed: name === "polygon" };
+    }
+    case "line":
+      return {
+        polygons: [[
+          { x: len("x1", width), y: len("y1", height) },
+          { x: len("x2", width), y: len("y2", height) },
+        ]],
+        closed: false,
+      };
+    case "path":
+      return parsePath(attrs.d ?? "");
+    default:
+      return null;
+  }
+}
+
+function parsePath(d: string): { polygons: Point[][]; closed: boolean } | null {
+  const polygons: Point[][] = [];
+  let current: Point[] = [];
+  let closed = false;
+  let pos: Point = { x: 0, y: 0 };
+  let start: Point = pos;
+
+  for (const [, cmd, argText] of d.matchAll(/([MLHVZmlhvz])([^MLHVZmlhvz]*)/g)) {
+    const args = argText.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    const rel = cmd === cmd.toLowerCase();
+    switch (cmd.toUpperCase()) {
+      case "M":
+        if (current.length > 1) polygons.push(current);
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          pos = rel ? { x: pos.x + args[i], y: pos.y + args[i + 1] } : { x: args[i], y: args[i + 1] };
+          if (i === 0) {
+            start = pos;
+            current = [pos];
+          } else {
+            current.push(pos);
+          }
+        }
+        break;
+      case "L":
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          pos = rel ? { x: pos.x + args[i], y: pos.y + args[i + 1] } : { x: args[i], y: args[i + 1] };
+          current.push(pos);
+        }
+        break;
+      case "H":
+        for (const a of args) {
+          pos = { x: rel ? pos.x + a : a, y: pos.y };
+          current.push(pos);
+        }
+        break;
+      case "V":
+        for (const a of args) {
+          pos = { x: pos.x, y: rel ? pos.y + a : a };
+          current.push(pos);
+        }
+        break;
+      case "Z":
+        closed = true;
+        pos = start;
+        if (current.length > 1) polygons.push(current);
+        current = [start];
+        break;
+    }
+  }
+  if (current.length > 1) polygons.push(current);
+  return polygons.length ? { polygons, closed } : null;
+}
+
+// Outline a polyline as a union of quads (segments) and squares (joins)
+function strokePolygons(points: Point[], strokeWidth: number, closed: boolean): Point[][] {
+  const half = strokeWidth / 2;
+  const polys: Point[][] = [];
+  const count = closed ? points.length : points.length - 1;
+
+  for (let i = 0; i < count; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len === 0) continue;
+    const nx = (-(b.y - a.y) / len) * half, ny = ((b.x - a.x) / len) * half;
+    polys.push(orient([
+      { x: a.x + nx, y: a.y + ny },
+      { x: b.x + nx, y: b.y + ny },
+      { x: b.x - nx, y: b.y - ny },
+      { x: a.x - nx, y: a.y - ny },
+    ]));
+  }
+
+  const joins = closed ? points : points.slice(1, -1);
+  for (const p of joins) polys.push(orient(ellipsePolygon(p.x, p.y, half, half)));
+  return polys;
+}
+
+// Give every stroke piece the same winding so the nonzero rule unions them
+function orient(poly: Point[]): Point[] {
+  let signed = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i], b = poly[(i + 1) % poly.length];
+    signed += a.x * b.y - b.x * a.y;
+  }
+  return signed < 0 ? poly.slice().reverse() : poly;
+}
+
+// Scanline fill with the nonzero rule; returns per-pixel coverage in [0, 1]
+function rasterize(polygons: Point[][], width: number, height: number): Float32Array {
+  const coverage = new Float32Array(width * height);
+  const edges: { x0: number; y0: number; x1: number; y1: number; dir: number }[] = [];
+  let minY = Infinity, maxY = -Infinity;
+
+  for (const poly of polygons) {
+    for (let i = 0; i < poly.length; i++) {
+      const a = poly[i], b = poly[(i + 1) % poly.length];
+      if (a.y === b.y) continue;
+      const dir = a.y < b.y ? 1 : -1;
+      const [top, bottom] = dir === 1 ? [a, b] : [b, a];
+      edges.push({ x0: top.x, y0: top.y, x1: bottom.x, y1: bottom.y, dir });
+      minY = Math.min(minY, top.y);
+      maxY = Math.max(maxY, bottom.y);
+    }
+  }
+  if (edges.length === 0) return coverage;
+
+  const rowStart = Math.max(0, Math.floor(minY));
+  const rowEnd = Math.min(height - 1, Math.ceil(maxY));
+  const weight = 1 / SUBSAMPLES;
+
+  for (let row = rowStart; row <= rowEnd; row++) {
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const sy = row + (s + 0.5) / SUBSAMPLES;
+      const crossings: { x: number; dir: number }[] = [];
+      for (const e of edges) {
+        if (sy < e.y0 || sy >= e.y1) continue;
+        const t = (sy - e.y0) / (e.y1 - e.y0);
+        crossings.push({ x: e.x0 + t * (e.x1 - e.x0), dir: e.dir });
+      }
+      crossings.sort((p, q) => p.x - q.x);
+
+      let winding = 0;
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i].dir;
+        if (winding === 0) continue;
+        addSpan(coverage, row * width, width, crossings[i].x, crossings[i + 1].x, weight);
+      }
+    }
+  }
+
+  return coverage;
+}
+
+function addSpan(
+  coverage: Float32Array,
+  rowOffset: number,
+  width: number,
+  x0: number,
+  x1: number,
+  weight: number
+): void {
+  const left = Math.max(0, x0), right = Math.min(width, x1);
+  if (right <= left) return;
+  const first = Math.floor(left), last = Math.floor(right);
+  if (first === last) {
+    coverage[rowOffset + first] += (right - left) * weight;
+    return;
+  }
+  coverage[rowOffset + first] += (first + 1 - left) * weight;
+  for (let x = first + 1; x < last && x < width; x++) coverage[rowOffset + x] += weight;
+  if (last < width) coverage[rowOffset + last] += (right - last) * weight;
+}
+
+// Source-over compositing of a solid color through a coverage mask
+function composite(rgba: Float32Array, coverage: Float32Array, color: RGB, opacity: number): void {
+  for (let i = 0; i < coverage.length; i++) {
+    const alpha = Math.min(1, coverage[i]) * opacity;
+    if (alpha <= 0) continue;
+    const o = i * 4;
+    const dstAlpha = rgba[o + 3] / 255;
+    const outAlpha = alpha + dstAlpha * (1 - alpha);
+    for (let c = 0; c < 3; c++) {
+      rgba[o + c] = (color[c] * alpha + rgba[o + c] * dstAlpha * (1 - alpha)) / outAlpha;
+    }
+    rgba[o + 3] = outAlpha * 255;
+  }
+}
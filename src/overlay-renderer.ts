@@ -0,0 +1,227 @@
+import type { DetectedShape, Point, ShapeType } from "./detection-core.js";
+import type { DetectionRegion, RegionSet } from "./regions.js";
+
+export const OVERLAY_LAYERS = ["boundingBox", "contour", "center", "label", "confidence", "regions"] as const;
+export type OverlayLayer = (typeof OVERLAY_LAYERS)[number];
+export type OverlayLayers = Record<OverlayLayer, boolean>;
+
+export const DEFAULT_OVERLAY_LAYERS: OverlayLayers = {
+  boundingBox: true,
+  contour: true,
+  center: true,
+  label: true,
+  confidence: true,
+  regions: true,
+};
+
+export const REGION_COLORS = { region: "#22c55e", exclusion: "#ef4444" } as const;
+
+export const SHAPE_COLORS: Record<ShapeType, string> = {
+  circle: "#f97316",
+  ellipse: "#eab308",
+  triangle: "#22c55e",
+  rectangle: "#3b82f6",
+  pentagon: "#a855f7",
+  hexagon: "#ec4899",
+  octagon: "#14b8a6",
+  star: "#ef4444",
+  polygon: "#64748b",
+};
+
+/**
+ * Draws detection results over the image on a canvas. The image is
+ * snapshotted once with `setImage`, so the overlay can be redrawn whenever
+ * the layers, shapes or highlighted shape change.
+ */
+export class OverlayRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private image: HTMLCanvasElement | null = null;
+  private backdrop: CanvasImageSource | null = null;
+  private shapes: DetectedShape[] = [];
+  private regions: RegionSet = { regions: [], exclusions: [] };
+  private draftRegion: { region: DetectionRegion; exclusion: boolean } | null = null;
+  private layers: OverlayLayers = { ...DEFAULT_OVERLAY_LAYERS };
+  private highlightedId: number | null = null;
+  private enabled = true;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext("2d")!;
+  }
+
+  /** Capture what the canvas shows now as the image under the overlay */
+  setImage(): void {
+    const image = document.createElement("canvas");
+    image.width = this.canvas.width;
+    image.height = this.canvas.height;
+    image.getContext("2d")!.drawImage(this.canvas, 0, 0);
+    this.image = image;
+    this.backdrop = null;
+    this.shapes = [];
+    this.highlightedId = null;
+  }
+
+  /** The snapshot taken by `setImage` */
+  getImage(): HTMLCanvasElement | null {
+    return this.image;
+  }
+
+  /** Draw something else under the overlay, e.g. a debug stage; null restores the image */
+  setBackdrop(backdrop: CanvasImageSource | null): void {
+    this.backdrop = backdrop;
+    this.render();
+  }
+
+  setShapes(shapes: DetectedShape[]): void {
+    this.shapes = shapes;
+    this.highlightedId = null;
+    this.render();
+  }
+
+  /**
+   * Regions of interest and exclusions in canvas pixels, plus one still
+   * being drawn. They stay when the image changes.
+   */
+  setRegions(regions: RegionSet, draft: { region: DetectionRegion; exclusion: boolean } | null = null): void {
+    this.regions = regions;
+    this.draftRegion = draft;
+    this.render();
+  }
+
+  setLayer(layer: OverlayLayer, visible: boolean): void {
+    this.layers[layer] = visible;
+    this.render();
+  }
+
+  getLayers(): OverlayLayers {
+    return { ...this.layers };
+  }
+
+  /** Emphasize one shape and dim the rest; null clears the highlight */
+  highlight(id: number | null): void {
+    if (id === this.highlightedId) return;
+    this.highlightedId = id;
+    this.render();
+  }
+
+  /** While disabled the canvas is left to another tool, e.g. the annotation editor */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.render();
+  }
+
+  render(): void {
+    const { ctx, canvas } = this;
+    if (!this.image || !this.enabled) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(this.backdrop ?? this.image, 0, 0);
+
+    // Keep strokes and text readable whatever the image resolution
+    const unit = Math.max(1, Math.round(Math.max(canvas.width, canvas.height) / 400));
+    const highlighted = this.shapes.find((shape) => shape.id === this.highlightedId);
+
+    if (this.layers.regions || this.draftRegion) {
+      const { regions, exclusions } = this.layers.regions ? this.regions : { regions: [], exclusions: [] };
+      for (const region of regions) this.drawRegion(region, false, unit);
+      for (const region of exclusions) this.drawRegion(region, true, unit);
+      if (this.draftRegion) this.drawRegion(this.draftRegion.region, this.draftRegion.exclusion, unit);
+    }
+
+    for (const shape of this.shapes) {
+      if (shape === highlighted) continue;
+      this.drawShape(shape, unit, highlighted ? 0.35 : 1);
+    }
+    if (highlighted) this.drawShape(highlighted, unit * 2, 1);
+  }
+
+  private drawShape(shape: DetectedShape, lineWidth: number, alpha: number): void {
+    const { ctx, layers } = this;
+    const color = SHAPE_COLORS[shape.type];
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = lineWidth;
+
+    // Coordinates are pixel indices, so shift onto pixel centers
+    if (layers.boundingBox) {
+      const { x, y, width, height } = shape.boundingBox;
+      ctx.setLineDash([lineWidth * 4, lineWidth * 3]);
+      ctx.strokeRect(x + 0.5, y + 0.5, width, height);
+      ctx.setLineDash([]);
+    }
+    if (layers.contour) tracePath(ctx, shape.contour);
+    if (layers.center) {
+      const x = shape.center.x + 0.5;
+      const y = shape.center.y + 0.5;
+      const size = lineWidth * 4;
+      ctx.beginPath();
+      ctx.moveTo(x - size, y);
+      ctx.lineTo(x + size, y);
+      ctx.moveTo(x, y - size);
+      ctx.lineTo(x, y + size);
+      ctx.stroke();
+    }
+
+    const text = [
+      layers.label ? `#${shape.id} ${shape.type}` : null,
+      layers.confidence ? `${Math.round(shape.confidence * 100)}%` : null,
+    ].filter(Boolean).join(" ");
+    if (text) this.drawLabel(text, shape, lineWidth, color);
+    ctx.restore();
+  }
+
+  // Regions get a dashed outline; exclusions are also shaded, as nothing inside them is detected
+  private drawRegion(region: DetectionRegion, exclusion: boolean, lineWidth: number): void {
+    const { ctx } = this;
+    const color = exclusion ? REGION_COLORS.exclusion : REGION_COLORS.region;
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.setLineDash([lineWidth * 6, lineWidth * 4]);
+    ctx.beginPath();
+    if (region.type === "rect") {
+      ctx.rect(region.x + 0.5, region.y + 0.5, region.width, region.height);
+    } else {
+      region.points.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x + 0.5, y + 0.5) : ctx.lineTo(x + 0.5, y + 0.5)));
+      ctx.closePath();
+    }
+    if (exclusion) {
+      ctx.globalAlpha = 0.2;
+      ctx.fill("evenodd");
+      ctx.globalAlpha = 1;
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Text on a filled tag above the bounding box, or just inside it at the image's top edge
+  private drawLabel(text: string, shape: DetectedShape, lineWidth: number, color: string): void {
+    const { ctx } = this;
+    const fontSize = 6 * lineWidth + 6;
+    ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+    ctx.textBaseline = "top";
+    const padding = lineWidth + 1;
+    const width = ctx.measureText(text).width + padding * 2;
+    const height = fontSize + padding * 2;
+    const x = Math.min(Math.max(0, shape.boundingBox.x), this.canvas.width - width);
+    const y = shape.boundingBox.y >= height ? shape.boundingBox.y - height : shape.boundingBox.y;
+
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = "#fff";
+    ctx.fillText(text, x + padding, y + padding);
+  }
+}
+
+// Stroke a closed path through the given pixels' centers
+function tracePath(ctx: CanvasRenderingContext2D, points: Point[]): void {
+  if (points.length < 2) return;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x + 0.5, points[0].y + 0.5);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x + 0.5, points[i].y + 0.5);
+  ctx.closePath();
+  ctx.stroke();
+}
@@ -0,0 +1,230 @@
+import type { Point } from "./detection-core.js";
+import type { OverlayRenderer } from "./overlay-renderer.js";
+import { scaleRegion, scaleRegions } from "./regions.js";
+import type { DetectionRegion, RegionSet } from "./regions.js";
+
+export type RegionMode = "rect" | "polygon";
+
+// Screen pixels within which a click closes a polygon, and below which a drag is a click
+const GRAB_DISTANCE = 8;
+
+/**
+ * Draws regions of interest and exclusions on the image canvas, shown
+ * through the overlay's "regions" layer. Regions are kept in full-image
+ * pixels, so they survive a change of the size limit and apply to every
+ * image opened (and to the batch) until cleared. `onChange` is called
+ * whenever one is added or removed.
+ *
+ * The panel holds `[data-mode]` buttons (rect, polygon), a
+ * `select.region-kind` (region or exclusion), `[data-action]` buttons
+ * (undo, clear) and a `.region-summary`.
+ */
+export class RegionTool {
+  private canvas: HTMLCanvasElement;
+  private panel: HTMLElement;
+  private overlay: OverlayRenderer;
+  private onChange: (regions: RegionSet) => void;
+  private kindSelect: HTMLSelectElement;
+  private summary: HTMLElement;
+  private regions: RegionSet = { regions: [], exclusions: [] };
+  /** Which list each region was added to, newest last, for undo */
+  private history: (keyof RegionSet)[] = [];
+  private mode: RegionMode | null = null;
+  /** Canvas pixels per full-image pixel */
+  private imageScale = 1;
+  private dragStart: Point | null = null;
+  /** Vertices of the polygon being drawn, in canvas pixels */
+  private draft: Point[] = [];
+  private pointer: Point | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    panel: HTMLElement,
+    overlay: OverlayRenderer,
+    onChange: (regions: RegionSet) => void
+  ) {
+    this.canvas = canvas;
+    this.panel = panel;
+    this.overlay = overlay;
+    this.onChange = onChange;
+    this.kindSelect = panel.querySelector("select.region-kind")!;
+    this.summary = panel.querySelector(".region-summary")!;
+    this.setupEventListeners();
+    this.refresh();
+  }
+
+  /** The regions in full-image pixels */
+  getRegions(): RegionSet {
+    return { regions: [...this.regions.regions], exclusions: [...this.regions.exclusions] };
+  }
+
+  /** The regions on an image downscaled by `scale`, as the detector needs them */
+  regionsAt(scale: number): RegionSet {
+    return scaleRegions(this.regions, scale);
+  }
+
+  /** Scale of the image now on the canvas (see `LoadedImage.scale`) */
+  setImageScale(scale: number): void {
+    this.imageScale = scale;
+    this.render();
+  }
+
+  stopDrawing(): void {
+    this.setMode(null);
+  }
+
+  private setupEventListeners(): void {
+    this.panel.addEventListener("click", (event) => {
+      const target = (event.target as HTMLElement).closest<HTMLElement>("[data-mode], [data-action]");
+      if (!target) return;
+      const mode = target.dataset.mode as RegionMode | undefined;
+      if (mode) this.setMode(this.mode === mode ? null : mode);
+      else if (target.dataset.action === "undo") this.undo();
+      else if (target.dataset.action === "clear") this.clear();
+    });
+
+    this.canvas.addEventListener("pointerdown", (event) => {
+      if (!this.mode || event.button !== 0) return;
+      const point = this.toCanvas(event);
+      if (this.mode === "rect") {
+        this.canvas.setPointerCapture(event.pointerId);
+        this.dragStart = point;
+        return;
+      }
+      const grab = GRAB_DISTANCE * this.screenScale();
+      if (this.draft.length >= 3 && distance(point, this.draft[0]) <= grab) this.finishPolygon();
+      else this.draft.push(point);
+      this.render();
+    });
+    this.canvas.addEventListener("pointermove", (event) => {
+      if (!this.mode) return;
+      this.pointer = this.toCanvas(event);
+      if (this.dragStart || this.draft.length) this.render();
+    });
+    this.canvas.addEventListener("pointerup", () => {
+      const start = this.dragStart;
+      this.dragStart = null;
+      if (!start || !this.pointer) return;
+      const x = Math.min(start.x, this.pointer.x);
+      const y = Math.min(start.y, this.pointer.y);
+      const width = Math.abs(this.pointer.x - start.x);
+      const height = Math.abs(this.pointer.y - start.y);
+      // A click without a drag creates nothing
+      if (Math.min(width, height) < (GRAB_DISTANCE * this.screenScale()) / 2) {
+        this.render();
+        return;
+      }
+      this.add({ type: "rect", x, y, width, height });
+    });
+    this.canvas.addEventListener("dblclick", () => {
+      if (this.mode === "polygon") this.finishPolygon();
+    });
+
+    document.addEventListener("keydown", (event) => {
+      if (!this.mode || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      if (event.key === "Escape") {
+        this.draft = [];
+        this.dragStart = null;
+        this.render();
+      } else if (event.key === "Enter" && this.mode === "polygon") {
+        this.finishPolygon();
+      }
+    });
+  }
+
+  private setMode(mode: RegionMode | null): void {
+    this.mode = mode;
+    this.draft = [];
+    this.dragStart = null;
+    this.panel.querySelectorAll<HTMLElement>("[data-mode]").forEach((button) => {
+      button.classList.toggle("active", button.dataset.mode === mode);
+    });
+    this.canvas.style.cursor = mode ? "crosshair" : "";
+    this.canvas.style.touchAction = mode ? "none" : "";
+    this.render();
+  }
+
+  private finishPolygon(): void {
+    // A double-click also adds its two clicks as vertices; drop the repeats
+    const grab = GRAB_DISTANCE * this.screenScale();
+    const points = this.draft.filter((p, i) => i === 0 || distance(p, this.draft[i - 1]) > grab / 2);
+    this.draft = [];
+    if (points.length >= 3) this.add({ type: "polygon", points });
+    else this.render();
+  }
+
+  // `region` is in canvas pixels; it is stored at full-image scale
+  private add(region: DetectionRegion): void {
+    const list = this.kindSelect.value === "exclusion" ? "exclusions" : "regions";
+    this.regions[list].push(scaleRegion(region, 1 / this.imageScale));
+    this.history.push(list);
+    this.changed();
+  }
+
+  private undo(): void {
+    const list = this.history.pop();
+    if (!list) return;
+    this.regions[list].pop();
+    this.changed();
+  }
+
+  private clear(): void {
+    if (this.history.length === 0) return;
+    this.regions = { regions: [], exclusions: [] };
+    this.history = [];
+    this.changed();
+  }
+
+  private changed(): void {
+    this.refresh();
+    this.onChange(this.getRegions());
+  }
+
+  private refresh(): void {
+    const { regions, exclusions } = this.regions;
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+    this.summary.textContent =
+      regions.length === 0 && exclusions.length === 0
+        ? "Detecting in the whole image."
+        : `${regions.length ? count(regions.length, "region") : "Whole image"}, ${count(exclusions.length, "exclusion")}.`;
+    this.panel.querySelectorAll<HTMLButtonElement>("[data-action]").forEach((button) => {
+      button.disabled = this.history.length === 0;
+    });
+    this.render();
+  }
+
+  private render(): void {
+    const exclusion = this.kindSelect.value === "exclusion";
+    let draft: DetectionRegion | null = null;
+    if (this.dragStart && this.pointer) {
+      const start = this.dragStart;
+      draft = {
+        type: "rect",
+        x: Math.min(start.x, this.pointer.x),
+        y: Math.min(start.y, this.pointer.y),
+        width: Math.abs(this.pointer.x - start.x),
+        height: Math.abs(this.pointer.y - start.y),
+      };
+    } else if (this.draft.length > 0) {
+      draft = { type: "polygon", points: this.pointer ? [...this.draft, this.pointer] : this.draft };
+    }
+    this.overlay.setRegions(this.regionsAt(this.imageScale), draft && { region: draft, exclusion });
+  }
+
+  // Image pixels per screen pixel, as the canvas is scaled to fit its container
+  private screenScale(): number {
+    const rect = this.canvas.getBoundingClientRect();
+    return rect.width > 0 ? this.canvas.width / rect.width : 1;
+  }
+
+  // Pixel coordinates on the canvas, with pixel centers at whole numbers like the detections
+  private toCanvas(event: PointerEvent): Point {
+    const rect = this.canvas.getBoundingClientRect();
+    const scale = this.screenScale();
+    return { x: (event.clientX - rect.left) * scale - 0.5, y: (event.clientY - rect.top) * scale - 0.5 };
+  }
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -0,0 +1,105 @@
+import type { Point } from "./detection-core.js";
+
+/**
+ * An area of the image in pixel coordinates: a rectangle covering pixels
+ * `x` to `x + width` (exclusive), or a polygon filled by the even-odd rule.
+ */
+export type DetectionRegion =
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  | { type: "polygon"; points: Point[] };
+
+/** Where to detect: inside any of `regions` (the whole image when empty), outside every exclusion */
+export interface RegionSet {
+  regions: DetectionRegion[];
+  exclusions: DetectionRegion[];
+}
+
+export const REGION_TYPES = ["rect", "polygon"] as const;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/** Throws with `key` and the index in the message when a region is malformed */
+export function validateRegions(regions: unknown, key: string): void {
+  if (!Array.isArray(regions)) throw new Error(`Detector option "${key}" must be an array of regions`);
+  regions.forEach((region, index) => {
+    const fail = (problem: string) => {
+      throw new Error(`Detector option "${key}[${index}]" ${problem}`);
+    };
+    if (region?.type === "rect") {
+      const { x, y, width, height } = region;
+      if (![x, y, width, height].every(isFiniteNumber)) fail("needs numeric x, y, width and height");
+      if (width <= 0 || height <= 0) fail("must have a positive width and height");
+    } else if (region?.type === "polygon") {
+      const { points } = region;
+      if (!Array.isArray(points) || points.length < 3) fail("needs at least 3 points");
+      if (!points.every((p: Point) => isFiniteNumber(p?.x) && isFiniteNumber(p?.y))) fail("has a non-numeric point");
+    } else {
+      fail(`must have type ${REGION_TYPES.map((type) => `"${type}"`).join(" or ")}`);
+    }
+  });
+}
+
+/**
+ * 1 for every pixel detection may use, 0 elsewhere. Returns null when
+ * there are neither regions nor exclusions, i.e. the whole image is used.
+ */
+export function regionMask(width: number, height: number, { regions, exclusions }: RegionSet): Uint8Array | null {
+  if (regions.length === 0 && exclusions.length === 0) return null;
+  const mask = new Uint8Array(width * height);
+  if (regions.length === 0) mask.fill(1);
+  for (const region of regions) fillRegion(mask, width, height, region, 1);
+  for (const region of exclusions) fillRegion(mask, width, height, region, 0);
+  return mask;
+}
+
+// Set the pixels whose centers fall inside the region
+function fillRegion(mask: Uint8Array, width: number, height: number, region: DetectionRegion, value: 0 | 1): void {
+  const fillRow = (y: number, from: number, to: number) => {
+    const start = Math.max(0, Math.ceil(from));
+    const end = Math.min(width, Math.ceil(to));
+    if (start < end) mask.fill(value, y * width + start, y * width + end);
+  };
+
+  if (region.type === "rect") {
+    const top = Math.max(0, Math.ceil(region.y));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = top; y < bottom; y++) fillRow(y, region.x, region.x + region.width);
+    return;
+  }
+
+  // Scanline fill: pair up the x positions where the row crosses an edge
+  const { points } = region;
+  const top = Math.max(0, Math.ceil(Math.min(...points.map((p) => p.y))));
+  const bottom = Math.min(height - 1, Math.floor(Math.max(...points.map((p) => p.y))));
+  for (let y = top; y <= bottom; y++) {
+    const crossings: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      // Half-open in y, so a vertex on the row is counted once
+      if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+        crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    }
+    crossings.sort((p, q) => p - q);
+    for (let i = 0; i + 1 < crossings.length; i += 2) fillRow(y, crossings[i], crossings[i + 1]);
+  }
+}
+
+/**
+ * The same region on an image resized by `scale`, e.g. from full-image
+ * coordinates to a downscaled canvas (see `scaleDetectionResult`).
+ */
+export function scaleRegion(region: DetectionRegion, scale: number): DetectionRegion {
+  if (scale === 1) return region;
+  const point = ({ x, y }: Point): Point => ({ x: (x + 0.5) * scale - 0.5, y: (y + 0.5) * scale - 0.5 });
+  if (region.type === "polygon") return { type: "polygon", points: region.points.map(point) };
+  return { type: "rect", ...point(region), width: region.width * scale, height: region.height * scale };
+}
+
+export function scaleRegions({ regions, exclusions }: RegionSet, scale: number): RegionSet {
+  return {
+    regions: regions.map((region) => scaleRegion(region, scale)),
+    exclusions: exclusions.map((region) => scaleRegion(region, scale)),
+  };
+}
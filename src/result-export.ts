@@ -0,0 +1,221 @@
+import type { DetectedShape, DetectionResult, ShapeType } from "./detection-core.js";
+import { escapeXml } from "./evaluation-reports.js";
+
+// Serializers for handing detections to labeling and analytics tools
+
+export const EXPORT_FORMATS = ["json", "csv", "coco", "voc", "summary"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** One detection result and the image it came from */
+export interface ExportImage {
+  fileName: string;
+  result: DetectionResult;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+// COCO category ids are 1-based positions in this list
+const CATEGORIES: ShapeType[] = [
+  "circle",
+  "ellipse",
+  "triangle",
+  "rectangle",
+  "pentagon",
+  "hexagon",
+  "octagon",
+  "star",
+  "polygon",
+];
+
+/**
+ * Serialize results in one of the export formats. Every format holds all
+ * images in one file except Pascal VOC, which is one XML file per image,
+ * named after the image with a "-2", "-3"... suffix when names repeat.
+ * "summary" is one CSV row per image with its shape counts by type.
+ */
+export function exportDetections(images: ExportImage[], format: ExportFormat): ExportFile[] {
+  switch (format) {
+    case "json":
+      return [{ fileName: "detections.json", mimeType: "application/json", content: toDetectionJson(images) }];
+    case "csv":
+      return [{ fileName: "detections.csv", mimeType: "text/csv", content: toDetectionCsv(images) }];
+    case "coco":
+      return [{ fileName: "detections.coco.json", mimeType: "application/json", content: toCocoJson(images) }];
+    case "voc": {
+      const names = uniqueNames(images.map((image) => baseName(image.fileName)));
+      return images.map((image, i) => ({
+        fileName: `${names[i]}.xml`,
+        mimeType: "application/xml",
+        content: toPascalVocXml(image),
+      }));
+    }
+    case "summary":
+      return [{ fileName: "detections-summary.csv", mimeType: "text/csv", content: toShapeCountCsv(images) }];
+  }
+}
+
+/** "square" for squares and e.g. "polygon (7)" for unnamed polygons, else the type */
+export function shapeLabel(shape: DetectedShape): string {
+  if (shape.isSquare) return "square";
+  if (shape.type === "polygon" && shape.sides !== undefined) return `polygon (${shape.sides})`;
+  return shape.type;
+}
+
+/** The results as they are, minus the debug buffers */
+export function toDetectionJson(images: ExportImage[]): string {
+  return JSON.stringify(
+    images.map(({ fileName, result: { debug, ...result } }) => ({ fileName, ...result })),
+    null,
+    2
+  );
+}
+
+const CSV_COLUMNS = [
+  "image", "id", "type", "sides", "is_square", "style", "overlapping", "parent_id", "confidence",
+  "center_x", "center_y", "bbox_x", "bbox_y", "bbox_width", "bbox_height", "area", "rotation",
+];
+
+/** One row per shape, in the result's own coordinates */
+export function toDetectionCsv(images: ExportImage[]): string {
+  const rows = images.flatMap(({ fileName, result }) =>
+    result.shapes.map((shape) => [
+      fileName,
+      shape.id,
+      shape.type,
+      shape.sides ?? "",
+      shape.isSquare ?? "",
+      shape.style,
+      shape.overlapping,
+      shape.parentId ?? "",
+      round(shape.confidence),
+      round(shape.center.x),
+      round(shape.center.y),
+      shape.boundingBox.x,
+      shape.boundingBox.y,
+      shape.boundingBox.width,
+      shape.boundingBox.height,
+      round(shape.area),
+      round(shape.rotation),
+    ])
+  );
+  return [CSV_COLUMNS, ...rows].map((row) => row.map((cell) => csvCell(String(cell))).join(",")).join("\n") + "\n";
+}
+
+/** One row per image: its size, shape count, count per shape label and processing time */
+export function toShapeCountCsv(images: ExportImage[]): string {
+  const labels = [...new Set(images.flatMap(({ result }) => result.shapes.map(shapeLabel)))].sort();
+  const header = ["image", "width", "height", "shapes", ...labels, "processing_ms"];
+  const rows = images.map(({ fileName, result }) => {
+    const counts = labels.map((label) => result.shapes.filter((shape) => shapeLabel(shape) === label).length);
+    return [fileName, result.imageWidth, result.imageHeight, result.shapes.length, ...counts, round(result.processingTime)];
+  });
+  return [header, ...rows].map((row) => row.map((cell) => csvCell(String(cell))).join(",")).join("\n") + "\n";
+}
+
+/**
+ * COCO object-detection JSON. Boxes are [x, y, width, height] in pixel
+ * edges, so they cover the bounding pixels fully; the polygon vertices
+ * become the segmentation and the confidence a `score`.
+ */
+export function toCocoJson(images: ExportImage[]): string {
+  let annotationId = 1;
+  const coco = {
+    info: {
+      description: "Shape detector output",
+      date_created: new Date().toISOString(),
+    },
+    images: images.map(({ fileName, result }, index) => ({
+      id: index + 1,
+      file_name: fileName,
+      width: result.imageWidth,
+      height: result.imageHeight,
+    })),
+    annotations: images.flatMap(({ result }, index) =>
+      result.shapes.map((shape) => ({
+        id: annotationId++,
+        image_id: index + 1,
+        category_id: CATEGORIES.indexOf(shape.type) + 1,
+        bbox: [shape.boundingBox.x, shape.boundingBox.y, shape.boundingBox.width + 1, shape.boundingBox.height + 1],
+        area: shape.area,
+        segmentation: [shape.vertices.flatMap(({ x, y }) => [x + 0.5, y + 0.5])],
+        iscrowd: 0,
+        score: round(shape.confidence),
+      }))
+    ),
+    categories: CATEGORIES.map((name, index) => ({ id: index + 1, name, supercategory: "shape" })),
+  };
+  return JSON.stringify(coco, null, 2);
+}
+
+/**
+ * Pascal VOC annotation XML for one image. VOC boxes are 1-based and
+ * inclusive; shapes touching the image border are marked truncated.
+ */
+export function toPascalVocXml({ fileName, result }: ExportImage): string {
+  const objects = result.shapes.map((shape) => vocObject(shape, result)).join("");
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<annotation>\n` +
+    `  <filename>${escapeXml(fileName)}</filename>\n` +
+    `  <source>\n` +
+    `    <annotation>shape-detector</annotation>\n` +
+    `  </source>\n` +
+    `  <size>\n` +
+    `    <width>${result.imageWidth}</width>\n` +
+    `    <height>${result.imageHeight}</height>\n` +
+    `    <depth>3</depth>\n` +
+    `  </size>\n` +
+    `  <segmented>0</segmented>\n` +
+    objects +
+    `</annotation>\n`
+  );
+}
+
+function vocObject(shape: DetectedShape, result: DetectionResult): string {
+  const { x, y, width, height } = shape.boundingBox;
+  const truncated = x <= 0 || y <= 0 || x + width >= result.imageWidth - 1 || y + height >= result.imageHeight - 1;
+  return (
+    `  <object>\n` +
+    `    <name>${shape.type}</name>\n` +
+    `    <pose>Unspecified</pose>\n` +
+    `    <truncated>${truncated ? 1 : 0}</truncated>\n` +
+    `    <difficult>0</difficult>\n` +
+    `    <bndbox>\n` +
+    `      <xmin>${x + 1}</xmin>\n` +
+    `      <ymin>${y + 1}</ymin>\n` +
+    `      <xmax>${x + width + 1}</xmax>\n` +
+    `      <ymax>${y + height + 1}</ymax>\n` +
+    `    </bndbox>\n` +
+    `  </object>\n`
+  );
+}
+
+function csvCell(text: string): string {
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// "scans/page 1.png" -> "page 1"
+function baseName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, "").replace(/\.[^.]*$/, "") || "image";
+}
+
+// Files from different folders can share a base name: ["page1", "page1"] -> ["page1", "page1-2"].
+// Compared case-insensitively, as many file systems do
+function uniqueNames(names: string[]): string[] {
+  const taken = new Set<string>();
+  return names.map((name) => {
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) unique = `${name}-${n}`;
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+}
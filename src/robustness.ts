@@ -0,0 +1,117 @@
+import type { DetectionResult, PixelBuffer } from "./detection-core.js";
+import { evaluateDetection } from "./evaluation-utils.js";
+import type { EvaluationOptions, GroundTruthShape } from "./evaluation-utils.js";
+import { PERTURBATION_KINDS, PERTURBATION_LEVELS, perturbGroundTruth, perturbImage } from "./image-perturbations.js";
+import type { PerturbationKind } from "./image-perturbations.js";
+
+export interface RobustnessLevel {
+  strength: number;
+  averageF1: number;
+  averageIoU: number;
+  /** Change from the unperturbed images (negative: worse) */
+  f1Change: number;
+  iouChange: number;
+}
+
+export interface RobustnessCurve {
+  kind: PerturbationKind;
+  /** From the mildest level to the most severe */
+  levels: RobustnessLevel[];
+}
+
+/** How F1 and IoU degrade as each perturbation gets stronger */
+export interface RobustnessReport {
+  images: number;
+  seed: number;
+  baseline: { averageF1: number; averageIoU: number };
+  curves: RobustnessCurve[];
+}
+
+export interface RobustnessImage {
+  name: string;
+  load: () => Promise<PixelBuffer>;
+  groundTruth: GroundTruthShape[];
+}
+
+export interface RobustnessOptions extends EvaluationOptions {
+  /** Perturbations to run and their strengths; defaults to `PERTURBATION_LEVELS` */
+  levels?: Partial<Record<PerturbationKind, readonly number[]>>;
+  /** Seed for the random perturbations (noise, salt and pepper) */
+  seed?: number;
+  /** Per-image load errors; silent when omitted */
+  log?: (message: string) => void;
+}
+
+/**
+ * Runs `detect` on every image once clean and once per perturbation level,
+ * scoring each against ground truth moved along with the image. Images are
+ * loaded one at a time, so memory stays flat however many there are. An
+ * image that fails to load scores 0 at every level, as in `evaluateImages`.
+ */
+export async function evaluateRobustness(
+  images: RobustnessImage[],
+  detect: (image: PixelBuffer) => Promise<DetectionResult>,
+  options: RobustnessOptions = {}
+): Promise<RobustnessReport> {
+  const { log = () => {}, ...evaluationOptions } = options;
+  const seed = options.seed ?? 1;
+  const levels = options.levels ?? PERTURBATION_LEVELS;
+  const kinds = PERTURBATION_KINDS.filter((kind) => levels[kind]?.length);
+
+  const baseline = { f1: 0, iou: 0 };
+  const totals = kinds.map((kind) => levels[kind]!.map(() => ({ f1: 0, iou: 0 })));
+
+  for (const [index, source] of images.entries()) {
+    const score = async (image: PixelBuffer, groundTruth: GroundTruthShape[]) => {
+      try {
+        const result = await detect(image);
+        const metrics = evaluateDetection(result.shapes, groundTruth, source.name, evaluationOptions);
+        return { f1: metrics.f1_score, iou: metrics.average_iou };
+      } catch {
+        return { f1: 0, iou: 0 };
+      }
+    };
+
+    let image: PixelBuffer;
+    try {
+      image = await source.load();
+    } catch (error) {
+      // Nothing is added to the totals, which is a score of 0 everywhere
+      log(`  error loading ${source.name}: ${error}`);
+      continue;
+    }
+    const clean = await score(image, source.groundTruth);
+    baseline.f1 += clean.f1;
+    baseline.iou += clean.iou;
+
+    for (const [k, kind] of kinds.entries()) {
+      for (const [l, strength] of levels[kind]!.entries()) {
+        const perturbation = { kind, strength };
+        const perturbed = perturbImage(image, perturbation, seed + index * 1009 + k * 31 + l);
+        const groundTruth = perturbGroundTruth(source.groundTruth, perturbation, image.width, image.height);
+        const { f1, iou } = await score(perturbed, groundTruth);
+        totals[k][l].f1 += f1;
+        totals[k][l].iou += iou;
+      }
+    }
+  }
+
+  const n = Math.max(1, images.length);
+  const averageF1 = baseline.f1 / n;
+  const averageIoU = baseline.iou / n;
+  return {
+    images: images.length,
+    seed,
+    baseline: { averageF1, averageIoU },
+    curves: kinds.map((kind, k) => ({
+      kind,
+      levels: levels[kind]!.map((strength, l) => ({
+        strength,
+        averageF1: totals[k][l].f1 / n,
+        averageIoU: totals[k][l].iou / n,
+        f1Change: totals[k][l].f1 / n - averageF1,
+        iouChange: totals[k][l].iou / n - averageIoU,
+      })),
+    })),
+  };
+}
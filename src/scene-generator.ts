@@ -0,0 +1,423 @@
+import type { Point } from "./detection-core.js";
+import { polygonArea } from "./contour-utils.js";
+import { mergeOptions } from "./detector-options.js";
+import type { GroundTruthData, GroundTruthImage, GroundTruthShape } from "./evaluation-utils.js";
+import { polygonCentroid } from "./geometry-utils.js";
+
+// Seeded SVG scenes with matching ground truth, for evaluating on more than the bundled images
+
+export const SCENE_SHAPE_TYPES = [
+  "circle",
+  "ellipse",
+  "triangle",
+  "rectangle",
+  "square",
+  "pentagon",
+  "hexagon",
+  "octagon",
+  "star",
+] as const;
+
+export type SceneShapeType = (typeof SCENE_SHAPE_TYPES)[number];
+export type ScenePolarity = "dark-on-light" | "light-on-dark";
+
+export interface SceneOptions {
+  width: number;
+  height: number;
+  /** Shapes per scene (inclusive); fewer when they don't fit */
+  minShapes: number;
+  maxShapes: number;
+  shapeTypes: readonly SceneShapeType[];
+  /** Shape radius range as a fraction of the shorter image side */
+  minSize: number;
+  maxSize: number;
+  /** Chance (0..1) that a shape is placed partly overlapping another */
+  overlap: number;
+  /** "random" picks one per scene */
+  polarity: ScenePolarity | "random";
+  /** Random hues; otherwise shapes are black, white or gray */
+  colors: boolean;
+  /** Lines and text labels that are not shapes */
+  distractors: number;
+  /** Background speckle density (0..1) */
+  noise: number;
+}
+
+export const DEFAULT_SCENE_OPTIONS: Readonly<SceneOptions> = Object.freeze({
+  width: 320,
+  height: 240,
+  minShapes: 2,
+  maxShapes: 5,
+  shapeTypes: SCENE_SHAPE_TYPES,
+  minSize: 0.08,
+  maxSize: 0.2,
+  overlap: 0.15,
+  polarity: "random",
+  colors: true,
+  distractors: 2,
+  noise: 0.3,
+});
+
+export interface SyntheticScene {
+  /** File name, also the image's key in the ground truth */
+  name: string;
+  seed: number;
+  svg: string;
+  /** The SVG as a data: URL, loadable like the bundled test images */
+  dataUrl: string;
+  groundTruth: GroundTruthImage;
+}
+
+/** Deterministic random numbers in [0, 1) (mulberry32) */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function resolveSceneOptions(options: Partial<SceneOptions> = {}): SceneOptions {
+  const resolved = mergeOptions<SceneOptions>({ ...DEFAULT_SCENE_OPTIONS }, options, "scene option");
+
+  const check = (condition: boolean, message: string) => {
+    if (!condition) throw new Error(`Invalid scene options: ${message}`);
+  };
+  check(resolved.width >= 32 && resolved.height >= 32, "width and height must be at least 32");
+  check(
+    Number.isInteger(resolved.minShapes) && resolved.minShapes >= 0 && resolved.minShapes <= resolved.maxShapes,
+    "minShapes must be an integer between 0 and maxShapes"
+  );
+  check(Number.isInteger(resolved.maxShapes), "maxShapes must be an integer");
+  check(
+    resolved.shapeTypes.length > 0 && resolved.shapeTypes.every((type) => SCENE_SHAPE_TYPES.includes(type)),
+    `shapeTypes must list some of ${SCENE_SHAPE_TYPES.join(", ")}`
+  );
+  check(resolved.minSize > 0 && resolved.minSize <= resolved.maxSize && resolved.maxSize <= 0.5, "need 0 < minSize <= maxSize <= 0.5");
+  check(resolved.overlap >= 0 && resolved.overlap <= 1, "overlap must be between 0 and 1");
+  check(["dark-on-light", "light-on-dark", "random"].includes(resolved.polarity), "unknown polarity");
+  check(Number.isInteger(resolved.distractors) && resolved.distractors >= 0, "distractors must be a non-negative integer");
+  check(resolved.noise >= 0 && resolved.noise <= 1, "noise must be between 0 and 1");
+  return resolved;
+}
+
+/** `count` scenes with consecutive seeds starting at `seed` */
+export function generateScenes(count: number, seed = 1, options: Partial<SceneOptions> = {}): SyntheticScene[] {
+  const resolved = resolveSceneOptions(options);
+  return Array.from({ length: count }, (_, i) => generateScene(seed + i, resolved));
+}
+
+/** Ground truth file for a set of scenes, in the `ground_truth.json` schema */
+export function scenesToGroundTruth(scenes: SyntheticScene[]): GroundTruthData {
+  return {
+    metadata: {
+      description: "Synthetic scenes from the seeded scene generator",
+      coordinate_system: "Canvas coordinates (0,0 at top-left)",
+      seeds: scenes.map((scene) => scene.seed),
+    },
+    images: Object.fromEntries(scenes.map((scene) => [scene.name, scene.groundTruth])),
+  };
+}
+
+interface PlacedShape {
+  center: Point;
+  /** Circumradius, used for placement */
+  radius: number;
+  element: string;
+  truth: GroundTruthShape;
+}
+
+// Room kept between shapes that should not touch, and from the image border
+const GAP = 6;
+const PLACEMENT_ATTEMPTS = 60;
+const WORDS = ["A1", "label", "x = 3", "fig. 2", "42", "note", "ok", "B7"];
+
+/**
+ * One scene: shapes placed at random (some overlapping when `overlap` > 0),
+ * speckle under them and distractor lines and text that the detector should
+ * ignore. Ground truth lists the shapes only. Text is skipped by the Node
+ * SVG rasterizer, so it only distracts in the browser.
+ */
+export function generateScene(seed: number, options: Partial<SceneOptions> = {}): SyntheticScene {
+  const opts = resolveSceneOptions(options);
+  const random = seededRandom(seed);
+  const uniform = (min: number, max: number) => min + (max - min) * random();
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const { width, height } = opts;
+
+  const polarity = opts.polarity === "random" ? pick(["dark-on-light", "light-on-dark"] as const) : opts.polarity;
+  const dark = polarity === "dark-on-light";
+  const background = dark
+    ? hslToHex(uniform(0, 360), uniform(0, 0.2), uniform(0.88, 1))
+    : hslToHex(uniform(0, 360), uniform(0, 0.2), uniform(0, 0.12));
+  const shapeColor = () => {
+    const lightness = dark ? uniform(0.05, 0.35) : uniform(0.65, 0.95);
+    return opts.colors ? hslToHex(uniform(0, 360), uniform(0.4, 0.9), lightness) : hslToHex(0, 0, lightness);
+  };
+
+  const shapes: PlacedShape[] = [];
+  const shapeCount = opts.minShapes + Math.floor(random() * (opts.maxShapes - opts.minShapes + 1));
+  const shortSide = Math.min(width, height);
+  for (let i = 0; i < shapeCount; i++) {
+    const type = pick(opts.shapeTypes);
+    const radius = uniform(opts.minSize, opts.maxSize) * shortSide;
+    const partner = shapes.length && random() < opts.overlap ? pick(shapes) : null;
+    const center = placeShape(radius, partner, shapes, width, height, uniform);
+    if (!center) continue;
+    const shape = buildShape(type, center, radius, shapeColor(), uniform);
+    if (partner) {
+      shape.truth.notes = "Overlaps another shape";
+      partner.truth.notes = "Overlaps another shape";
+    }
+    shapes.push(shape);
+  }
+
+  const noise: string[] = [];
+  const speckles = Math.round((opts.noise * width * height) / 300);
+  for (let i = 0; i < speckles; i++) {
+    noise.push(
+      `<circle cx="${fmt(uniform(0, width))}" cy="${fmt(uniform(0, height))}" r="${fmt(uniform(0.4, 1.2))}" ` +
+        `fill="${shapeColor()}" opacity="${fmt(uniform(0.2, 0.7))}"/>`
+    );
+  }
+
+  const distractors: string[] = [];
+  for (let i = 0; i < opts.distractors; i++) {
+    const element = random() < 0.6
+      ? placeLine(shapes, width, height, shapeColor(), uniform)
+      : placeText(pick(WORDS), shapes, width, height, shapeColor(), uniform);
+    if (element) distractors.push(element);
+  }
+
+  const svg = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">`,
+    `    <rect width="100%" height="100%" fill="${background}"/>`,
+    ...[...noise, ...shapes.map((shape) => shape.element), ...distractors].map((line) => `    ${line}`),
+    `</svg>`,
+  ].join("\n");
+
+  return {
+    name: `synthetic_${String(seed).padStart(4, "0")}.svg`,
+    seed,
+    svg,
+    dataUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    groundTruth: {
+      image_dimensions: { width, height },
+      shapes: shapes.map((shape) => shape.truth),
+      seed,
+      polarity,
+    },
+  };
+}
+
+// A center for a new shape: clear of the others, or partly over `partner`
+function placeShape(
+  radius: number,
+  partner: PlacedShape | null,
+  shapes: PlacedShape[],
+  width: number,
+  height: number,
+  uniform: (min: number, max: number) => number
+): Point | null {
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    let center: Point;
+    if (partner) {
+      // Close enough to overlap, far enough that neither swallows the other
+      const angle = uniform(0, 2 * Math.PI);
+      const distance = (radius + partner.radius) * uniform(0.6, 0.85);
+      if (distance <= Math.abs(radius - partner.radius) + GAP) continue;
+      center = { x: partner.center.x + distance * Math.cos(angle), y: partner.center.y + distance * Math.sin(angle) };
+    } else {
+      center = { x: uniform(radius + GAP, width - radius - GAP), y: uniform(radius + GAP, height - radius - GAP) };
+    }
+    const inside = center.x - radius >= GAP && center.x + radius <= width - GAP &&
+      center.y - radius >= GAP && center.y + radius <= height - GAP;
+    const clear = shapes.every((other) =>
+      other === partner || Math.hypot(other.center.x - center.x, other.center.y - center.y) >= radius + other.radius + GAP
+    );
+    if (inside && clear) return center;
+  }
+  return null;
+}
+
+function buildShape(
+  type: SceneShapeType,
+  center: Point,
+  radius: number,
+  color: string,
+  uniform: (min: number, max: number) => number
+): PlacedShape {
+  const cx = round(center.x), cy = round(center.y);
+  const r = round(radius);
+
+  if (type === "circle") {
+    return {
+      center,
+      radius,
+      element: `<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${fmt(r)}" fill="${color}"/>`,
+      truth: {
+        type,
+        center: { x: cx, y: cy },
+        radius: r,
+        bounding_box: { x: round(cx - r), y: round(cy - r), width: round(2 * r), height: round(2 * r) },
+        area: round(Math.PI * r * r),
+      },
+    };
+  }
+
+  if (type === "ellipse") {
+    // Clearly flatter than a circle, so the label is never in doubt
+    const rx = r, ry = round(r * uniform(0.4, 0.7));
+    const angle = round(uniform(0, 180));
+    const rad = (angle * Math.PI) / 180;
+    const halfWidth = Math.hypot(rx * Math.cos(rad), ry * Math.sin(rad));
+    const halfHeight = Math.hypot(rx * Math.sin(rad), ry * Math.cos(rad));
+    return {
+      center,
+      radius,
+      element: `<ellipse cx="${fmt(cx)}" cy="${fmt(cy)}" rx="${fmt(rx)}" ry="${fmt(ry)}" ` +
+        `transform="rotate(${fmt(angle)} ${fmt(cx)} ${fmt(cy)})" fill="${color}"/>`,
+      truth: {
+        type,
+        center: { x: cx, y: cy },
+        bounding_box: {
+          x: round(cx - halfWidth),
+          y: round(cy - halfHeight),
+          width: round(2 * halfWidth),
+          height: round(2 * halfHeight),
+        },
+        area: round(Math.PI * rx * ry),
+        radius_x: rx,
+        radius_y: ry,
+        angle_degrees: angle,
+      },
+    };
+  }
+
+  const rotation = uniform(0, 2 * Math.PI);
+  const around = (radii: number[], angles: number[]) =>
+    angles.map((a, i) => ({ x: round(cx + radii[i] * Math.cos(a + rotation)), y: round(cy + radii[i] * Math.sin(a + rotation)) }));
+  const regular = (n: number) => Array.from({ length: n }, (_, i) => (2 * Math.PI * i) / n);
+  const extra: Partial<GroundTruthShape> = {};
+  let vertices: Point[];
+
+  switch (type) {
+    case "triangle": {
+      // Uneven spacing, but no angle below about 30 degrees
+      const angles = [0, (2 * Math.PI) / 3 + uniform(-0.35, 0.35), (4 * Math.PI) / 3 + uniform(-0.35, 0.35)];
+      vertices = around(angles.map(() => r * uniform(0.85, 1)), angles);
+      break;
+    }
+    case "rectangle":
+    case "square": {
+      // Half the corners' angular spread sets the aspect ratio (45 degrees: a square)
+      const spread = type === "square" ? Math.PI / 4 : uniform(0.35, 0.6);
+      const aligned = uniform(0, 1) < 0.4;
+      const base = aligned ? -rotation : 0;
+      vertices = around([r, r, r, r], [spread, Math.PI - spread, Math.PI + spread, -spread].map((a) => a + base));
+      break;
+    }
+    case "star": {
+      const inner = r * uniform(0.38, 0.5);
+      const angles = regular(10);
+      vertices = around(angles.map((_, i) => (i % 2 ? inner : r)), angles);
+      extra.outer_radius = r;
+      extra.inner_radius = round(inner);
+      break;
+    }
+    default: {
+      const sides = type === "pentagon" ? 5 : type === "hexagon" ? 6 : 8;
+      vertices = around(new Array(sides).fill(r), regular(sides));
+      extra.radius = r;
+    }
+  }
+
+  const xs = vertices.map((p) => p.x), ys = vertices.map((p) => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const centroid = polygonCentroid(vertices);
+  return {
+    center,
+    radius,
+    element: `<polygon points="${vertices.map((p) => `${fmt(p.x)},${fmt(p.y)}`).join(" ")}" fill="${color}"/>`,
+    truth: {
+      type,
+      center: { x: round(centroid.x), y: round(centroid.y) },
+      vertices,
+      bounding_box: { x: minX, y: minY, width: round(Math.max(...xs) - minX), height: round(Math.max(...ys) - minY) },
+      area: round(Math.abs(polygonArea(vertices))),
+      ...extra,
+    },
+  };
+}
+
+function placeLine(
+  shapes: PlacedShape[],
+  width: number,
+  height: number,
+  color: string,
+  uniform: (min: number, max: number) => number
+): string | null {
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const length = uniform(20, 60);
+    const angle = uniform(0, Math.PI);
+    const a = { x: uniform(GAP, width - GAP), y: uniform(GAP, height - GAP) };
+    const b = { x: a.x + length * Math.cos(angle), y: a.y + length * Math.sin(angle) };
+    if (b.x < GAP || b.x > width - GAP || b.y < GAP || b.y > height - GAP) continue;
+    if (shapes.some((shape) => segmentDistance(shape.center, a, b) < shape.radius + GAP)) continue;
+    return `<line x1="${fmt(a.x)}" y1="${fmt(a.y)}" x2="${fmt(b.x)}" y2="${fmt(b.y)}" ` +
+      `stroke="${color}" stroke-width="${fmt(uniform(1, 2))}"/>`;
+  }
+  return null;
+}
+
+function placeText(
+  text: string,
+  shapes: PlacedShape[],
+  width: number,
+  height: number,
+  color: string,
+  uniform: (min: number, max: number) => number
+): string | null {
+  const fontSize = round(uniform(9, 13));
+  // Rough extent of the label; no font metrics are available here
+  const textWidth = 0.6 * fontSize * text.length;
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const x = uniform(GAP, width - GAP - textWidth);
+    const y = uniform(GAP + fontSize, height - GAP);
+    const middle = { x: x + textWidth / 2, y: y - fontSize / 2 };
+    const reach = Math.hypot(textWidth, fontSize) / 2;
+    if (shapes.some((shape) => Math.hypot(shape.center.x - middle.x, shape.center.y - middle.y) < shape.radius + reach + GAP)) {
+      continue;
+    }
+    return `<text x="${fmt(x)}" y="${fmt(y)}" font-family="sans-serif" font-size="${fmt(fontSize)}" fill="${color}">${text}</text>`;
+  }
+  return null;
+}
+
+function segmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    return value.toString(16).padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function fmt(value: number): string {
+  return String(round(value));
+}
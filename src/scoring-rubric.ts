@@ -0,0 +1,256 @@
+import type { EvaluationMetrics } from "./evaluation-utils.js";
+
+// How evaluation metrics become points, pass/fail and a grade
+
+export const RUBRIC_METRICS = [
+  "f1",
+  "precision",
+  "recall",
+  "iou",
+  "centerError",
+  "areaAccuracy",
+  "confidenceCalibration",
+  "processingTime",
+] as const;
+export type RubricMetric = (typeof RUBRIC_METRICS)[number];
+
+export interface RubricBand {
+  /** Lowest value that earns this band (highest, for center error and processing time) */
+  threshold: number;
+  /** Share of the criterion's weight earned, 0–1 */
+  credit: number;
+  /** Start of the feedback line, e.g. "✓ Excellent" */
+  note?: string;
+}
+
+export interface RubricCriterion {
+  metric: RubricMetric;
+  /** Points at stake */
+  weight: number;
+  /** Feedback wording, e.g. "localization" */
+  label: string;
+  /** Best band first; a value that meets none earns nothing */
+  bands: RubricBand[];
+  /** Start of the feedback line when no band is met */
+  failNote?: string;
+}
+
+export interface RubricGrade {
+  grade: string;
+  /** Overall percentage needed for this grade */
+  minPercentage: number;
+}
+
+export interface ScoringRubric {
+  name: string;
+  /** IoU a detection needs with ground truth to count as found */
+  matchThreshold: number;
+  criteria: RubricCriterion[];
+  /** Percentage of its points an image needs to pass */
+  passMark: number;
+  /** Best grade first; a run below every cutoff gets the last one */
+  grades: RubricGrade[];
+}
+
+interface MetricDefinition {
+  lowerIsBetter: boolean;
+  value: (metrics: EvaluationMetrics) => number;
+  format: (value: number) => string;
+}
+
+const METRICS: Record<RubricMetric, MetricDefinition> = {
+  f1: { lowerIsBetter: false, value: (m) => m.f1_score, format: (v) => `F1: ${v.toFixed(3)}` },
+  precision: { lowerIsBetter: false, value: (m) => m.precision, format: (v) => `${(v * 100).toFixed(1)}%` },
+  recall: { lowerIsBetter: false, value: (m) => m.recall, format: (v) => `${(v * 100).toFixed(1)}%` },
+  iou: { lowerIsBetter: false, value: (m) => m.average_iou, format: (v) => `IoU: ${v.toFixed(3)}` },
+  centerError: {
+    lowerIsBetter: true,
+    value: (m) => m.center_point_accuracy,
+    format: (v) => `${v.toFixed(1)}px error`,
+  },
+  areaAccuracy: {
+    lowerIsBetter: false,
+    value: (m) => m.area_accuracy,
+    format: (v) => `${(v * 100).toFixed(1)}% accuracy`,
+  },
+  confidenceCalibration: {
+    lowerIsBetter: false,
+    value: (m) => m.confidence_calibration,
+    format: (v) => v.toFixed(3),
+  },
+  processingTime: { lowerIsBetter: true, value: (m) => m.processing_time, format: (v) => `${v.toFixed(0)}ms` },
+};
+
+/** The original 100-point scheme: F1 40, IoU 25, center 15, area 10, speed 10; pass at 60 */
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  name: "default",
+  matchThreshold: 0.5,
+  criteria: [
+    {
+      metric: "f1",
+      weight: 40,
+      label: "detection accuracy",
+      bands: [
+        { threshold: 0.9, credit: 1 },
+        { threshold: 0.7, credit: 0.75 },
+        { threshold: 0.5, credit: 0.5 },
+      ],
+    },
+    {
+      metric: "iou",
+      weight: 25,
+      label: "localization",
+      bands: [
+        { threshold: 0.8, credit: 1, note: "✓ Excellent" },
+        { threshold: 0.6, credit: 0.8, note: "✓ Good" },
+        { threshold: 0.4, credit: 0.4, note: "△ Fair" },
+      ],
+      failNote: "✗ Poor",
+    },
+    {
+      metric: "centerError",
+      weight: 15,
+      label: "center accuracy",
+      bands: [
+        { threshold: 5, credit: 1 },
+        { threshold: 10, credit: 0.8 },
+        { threshold: 20, credit: 8 / 15 },
+      ],
+    },
+    {
+      metric: "areaAccuracy",
+      weight: 10,
+      label: "area calculation",
+      bands: [
+        { threshold: 0.9, credit: 1 },
+        { threshold: 0.8, credit: 0.8 },
+        { threshold: 0.7, credit: 0.5 },
+      ],
+    },
+    {
+      metric: "processingTime",
+      weight: 10,
+      label: "performance",
+      bands: [
+        { threshold: 500, credit: 1 },
+        { threshold: 1000, credit: 0.8 },
+        { threshold: 2000, credit: 0.5 },
+      ],
+    },
+  ],
+  passMark: 60,
+  grades: [
+    { grade: "A", minPercentage: 90 },
+    { grade: "B", minPercentage: 80 },
+    { grade: "C", minPercentage: 70 },
+    { grade: "D", minPercentage: 60 },
+    { grade: "F", minPercentage: 0 },
+  ],
+};
+
+/**
+ * A full rubric from (possibly partial) JSON: missing top-level fields come
+ * from `base`, and `criteria` and `grades` replace the base lists whole.
+ */
+export function resolveRubric(input: unknown, base: ScoringRubric = DEFAULT_RUBRIC): ScoringRubric {
+  const check = (condition: boolean, message: string) => {
+    if (!condition) throw new Error(`Invalid rubric: ${message}`);
+  };
+  check(typeof input === "object" && input !== null && !Array.isArray(input), "expected a JSON object");
+  for (const key of Object.keys(input as object)) {
+    check(key in base, `unknown field "${key}"`);
+  }
+  const rubric: ScoringRubric = { ...base, ...(input as Partial<ScoringRubric>) };
+
+  check(typeof rubric.name === "string" && rubric.name.length > 0, "name must be a non-empty string");
+  check(rubric.matchThreshold > 0 && rubric.matchThreshold < 1, "matchThreshold must be between 0 and 1");
+  check(Array.isArray(rubric.criteria) && rubric.criteria.length > 0, "criteria must be a non-empty list");
+  for (const [i, criterion] of rubric.criteria.entries()) {
+    const where = `criteria[${i}]`;
+    check(RUBRIC_METRICS.includes(criterion.metric), `${where}.metric must be one of ${RUBRIC_METRICS.join(", ")}`);
+    check(Number.isFinite(criterion.weight) && criterion.weight >= 0, `${where}.weight must be a non-negative number`);
+    check(typeof criterion.label === "string", `${where}.label must be a string`);
+    check(Array.isArray(criterion.bands) && criterion.bands.length > 0, `${where}.bands must be a non-empty list`);
+    const direction = METRICS[criterion.metric].lowerIsBetter ? 1 : -1;
+    criterion.bands.forEach((band, b) => {
+      check(Number.isFinite(band.threshold), `${where}.bands[${b}].threshold must be a number`);
+      check(band.credit >= 0 && band.credit <= 1, `${where}.bands[${b}].credit must be between 0 and 1`);
+      const previous = criterion.bands[b - 1];
+      check(
+        !previous || (band.threshold - previous.threshold) * direction > 0,
+        `${where}.bands must go from the strictest threshold to the loosest`
+      );
+    });
+  }
+  check(rubric.passMark >= 0 && rubric.passMark <= 100, "passMark must be a percentage between 0 and 100");
+  check(Array.isArray(rubric.grades) && rubric.grades.length > 0, "grades must be a non-empty list");
+  rubric.grades.forEach((grade, g) => {
+    check(typeof grade.grade === "string" && grade.grade.length > 0, `grades[${g}].grade must be a non-empty string`);
+    check(
+      g === 0 || grade.minPercentage < rubric.grades[g - 1].minPercentage,
+      "grades must go from the best (highest minPercentage) to the worst"
+    );
+  });
+  return rubric;
+}
+
+export function parseRubric(json: string): ScoringRubric {
+  return resolveRubric(JSON.parse(json));
+}
+
+/**
+ * Points one criterion earns, with its feedback line, e.g.
+ * "✓ Good localization (IoU: 0.712)"
+ */
+export function scoreCriterion(
+  criterion: RubricCriterion,
+  metrics: EvaluationMetrics
+): { points: number; feedback: string } {
+  const { lowerIsBetter, value, format } = METRICS[criterion.metric];
+  const actual = value(metrics);
+  const band = criterion.bands.find((b) => (lowerIsBetter ? actual <= b.threshold : actual >= b.threshold));
+  const note = band ? band.note : criterion.failNote;
+  return {
+    points: band ? criterion.weight * band.credit : 0,
+    feedback: `${note ? `${note} ` : ""}${criterion.label} (${format(actual)})`,
+  };
+}
+
+export function maxRubricScore(rubric: ScoringRubric): number {
+  return rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+}
+
+/**
+ * `rubric` with its center, IoU and area thresholds taken from the
+ * `tolerance_guidelines` in ground_truth.json metadata, e.g.
+ * "±5 pixels acceptable" or "IoU ≥ 0.8 for excellent, ≥ 0.6 for good".
+ * Each guideline number replaces the strictest band thresholds in order;
+ * guidelines that are missing or carry no number change nothing.
+ */
+export function applyToleranceGuidelines(
+  rubric: ScoringRubric,
+  guidelines: Record<string, unknown> | undefined
+): ScoringRubric {
+  if (!guidelines) return rubric;
+  const numbers = (key: string) =>
+    typeof guidelines[key] === "string" ? (guidelines[key] as string).match(/\d+(?:\.\d+)?/g)?.map(Number) ?? [] : [];
+
+  const thresholds: Partial<Record<RubricMetric, number[]>> = {
+    centerError: numbers("center_point"),
+    iou: numbers("bounding_box"),
+    // "±10%" of area is 90% area accuracy
+    areaAccuracy: numbers("area").map((percent) => 1 - percent / 100),
+  };
+  return {
+    ...rubric,
+    criteria: rubric.criteria.map((criterion) => {
+      const values = thresholds[criterion.metric];
+      if (!values?.length) return criterion;
+      const bands = criterion.bands.map((band, i) => (i < values.length ? { ...band, threshold: values[i] } : band));
+      // Keep the bands ordered if a guideline is looser than a band it didn't replace
+      const direction = METRICS[criterion.metric].lowerIsBetter ? 1 : -1;
+      const ordered = bands.every((band, i) => i === 0 || (band.threshold - bands[i - 1].threshold) * direction > 0);
+      return ordered ? { ...criterion, bands } : criterion;
+    }),
+  };
+}
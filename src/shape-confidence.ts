@@ -0,0 +1,126 @@
+import type { Point, ShapeType } from "./detection-core.js";
+import type { DetectorOptions } from "./detector-options.js";
+
+/** What the classifier measured about one shape */
+export interface ShapeFit {
+  type: ShapeType;
+  vertices: Point[];
+  circularity: number;
+  /** Mean relative contour deviation from the fitted ellipse (see `ellipseResidual`) */
+  ellipseResidual: number;
+  /** Minor / major axis ratio of the fitted ellipse */
+  axisRatio: number;
+  /** Mean contour distance from the polygon, in pixels */
+  polygonResidual: number;
+  /** Polygon simplification tolerance used, in pixels */
+  polygonEpsilon: number;
+  /** Vertex counts at a tighter and a looser simplification tolerance */
+  alternativeCorners: number[];
+  /** Part of the outline is hidden by an overlapping shape */
+  occluded: boolean;
+}
+
+/** The three ingredients of a confidence score, each from 0 (poor) to 1 */
+export interface ConfidenceFactors {
+  /** How closely the contour follows the class model (ellipse or polygon) */
+  fit: number;
+  /** How regular the corners are for the class (right angles, equal n-gon angles, even star tips) */
+  regularity: number;
+  /** How far the measurements are from the thresholds of the next-best class */
+  margin: number;
+}
+
+// Confidence = FLOOR + (1 - FLOOR) × weighted geometric mean of the factors
+const FLOOR = 0.3;
+const WEIGHTS: ConfidenceFactors = { fit: 1, regularity: 1, margin: 1.5 };
+
+/**
+ * Confidence that a shape really is of its reported type, from how well it
+ * fits the class and how clear-cut the decision was. A factor near zero
+ * pulls the score down hard, so one weak cue is enough to flag a shape.
+ */
+export function shapeConfidence(fit: ShapeFit, opts: DetectorOptions): number {
+  const factors = confidenceFactors(fit, opts);
+  const total = WEIGHTS.fit + WEIGHTS.regularity + WEIGHTS.margin;
+  const score = Math.pow(
+    Math.max(1e-3, factors.fit) ** WEIGHTS.fit *
+      Math.max(1e-3, factors.regularity) ** WEIGHTS.regularity *
+      Math.max(1e-3, factors.margin) ** WEIGHTS.margin,
+    1 / total
+  );
+  return FLOOR + (1 - FLOOR) * score;
+}
+
+export function confidenceFactors(fit: ShapeFit, opts: DetectorOptions): ConfidenceFactors {
+  const curved = fit.type === "circle" || fit.type === "ellipse";
+  if (curved) {
+    const ellipseFit = clamp01(1 - fit.ellipseResidual / opts.maxEllipseResidual);
+    // Circles must be clearly round, ellipses clearly not
+    const roundness = (fit.axisRatio - opts.minCircleAxisRatio) / (1 - opts.minCircleAxisRatio);
+    const margin = fit.type === "circle"
+      ? Math.min(
+          clamp01(roundness),
+          fit.occluded ? 1 : clamp01((fit.circularity - opts.circularityThreshold) / (1 - opts.circularityThreshold))
+        )
+      : clamp01((opts.minCircleAxisRatio - fit.axisRatio) / (opts.minCircleAxisRatio * 0.25));
+    return { fit: ellipseFit, regularity: 1, margin: Math.min(margin, ellipseFit + 0.25) };
+  }
+
+  const polygonFit = clamp01(1 - fit.polygonResidual / Math.max(1, fit.polygonEpsilon * 0.5));
+  // Far from curved, and the vertex count holds at other tolerances
+  const notCurved = clamp01((fit.ellipseResidual - opts.maxEllipseResidual) / opts.maxEllipseResidual);
+  const corners = fit.vertices.length;
+  const stable = fit.type === "star" || fit.type === "polygon"
+    ? 1
+    : fit.alternativeCorners.filter((n) => n === corners).length / Math.max(1, fit.alternativeCorners.length);
+  return {
+    fit: polygonFit,
+    regularity: cornerRegularity(fit.type, fit.vertices),
+    margin: Math.min(notCurved, 0.5 + 0.5 * stable),
+  };
+}
+
+function cornerRegularity(type: ShapeType, vertices: Point[]): number {
+  const n = vertices.length;
+  if (n < 3) return 0;
+  const angles = vertices.map((v, i) => interiorAngle(vertices[(i + n - 1) % n], v, vertices[(i + 1) % n]));
+  const meanDeviation = (target: number) => angles.reduce((s, a) => s + Math.abs(a - target), 0) / n;
+
+  switch (type) {
+    case "rectangle":
+      return clamp01(1 - meanDeviation(90) / 30);
+    case "pentagon":
+    case "hexagon":
+    case "octagon": {
+      const regular = (180 * (n - 2)) / n;
+      return clamp01(1 - meanDeviation(regular) / 30);
+    }
+    case "triangle":
+      // Any triangle will do, but slivers are usually noise
+      return clamp01(Math.min(...angles) / 15);
+    case "star": {
+      // Tips alternate with valleys; the tips should sit at similar radii
+      const cx = vertices.reduce((s, p) => s + p.x, 0) / n;
+      const cy = vertices.reduce((s, p) => s + p.y, 0) / n;
+      const radii = vertices.map((p) => Math.hypot(p.x - cx, p.y - cy));
+      const median = [...radii].sort((a, b) => a - b)[Math.floor(n / 2)];
+      const tips = radii.filter((r) => r >= median);
+      const mean = tips.reduce((s, r) => s + r, 0) / tips.length;
+      const spread = Math.sqrt(tips.reduce((s, r) => s + (r - mean) ** 2, 0) / tips.length) / Math.max(1e-6, mean);
+      return clamp01(1 - spread / 0.3);
+    }
+    default:
+      return 1;
+  }
+}
+
+// Angle at `b` between the edges to `a` and `c`, in degrees
+function interiorAngle(a: Point, b: Point, c: Point): number {
+  const ux = a.x - b.x, uy = a.y - b.y, vx = c.x - b.x, vy = c.y - b.y;
+  const cos = (ux * vx + uy * vy) / Math.max(1e-9, Math.hypot(ux, uy) * Math.hypot(vx, vy));
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,197 @@
+import type { DetectorOptions } from "./detector-options.js";
+
+// Chamfer 3-4 weights: orthogonal and diagonal steps, in thirds of a pixel
+const ORTHOGONAL = 3;
+const DIAGONAL = 4;
+
+/**
+ * Split a region that may hold several touching or overlapping shapes.
+ *
+ * Each shape contributes its own peak to the distance transform, with a
+ * valley where the shapes meet. Peaks are kept as seeds only if they are
+ * persistent, i.e. rise at least `max(splitMinDepth, splitDepthRatio × peak)`
+ * above the highest saddle joining them to a taller peak, so the ragged
+ * edges of a single shape never split it. The region is then flooded from
+ * the seeds (watershed on the distance transform). Pieces smaller than
+ * `minArea` are not worth a detection of their own, so their seeds are
+ * dropped and the flood is redone.
+ *
+ * `mask` must have a background border at least one pixel wide. Returns
+ * 1-based piece labels per mask pixel, numbered in raster order of each
+ * piece's first pixel, or null when the region stays in one piece.
+ */
+export function splitRegion(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  options: DetectorOptions
+): { labels: Int32Array; count: number } | null {
+  const distance = chamferDistance(mask, width, height);
+  let seeds = persistentPeaks(mask, distance, width, height, options);
+
+  while (seeds.length > 1) {
+    const labels = watershed(mask, distance, width, seeds);
+    const sizes = new Array(seeds.length + 1).fill(0);
+    for (let i = 0; i < labels.length; i++) sizes[labels[i]]++;
+    const kept = seeds.filter((_, s) => sizes[s + 1] >= options.minArea);
+    if (kept.length === seeds.length) {
+      const order = new Int32Array(seeds.length + 1);
+      let count = 0;
+      for (let i = 0; i < labels.length; i++) {
+        if (labels[i] && !order[labels[i]]) order[labels[i]] = ++count;
+        labels[i] = order[labels[i]];
+      }
+      return { labels, count };
+    }
+    seeds = kept;
+  }
+  return null;
+}
+
+// Index offsets of the 8 neighbours in a row-major mask
+function neighbourOffsets(width: number): number[] {
+  return [-1, 1, -width, width, -width - 1, -width + 1, width - 1, width + 1];
+}
+
+// Two-pass chamfer distance to the nearest background pixel
+function chamferDistance(mask: Uint8Array, width: number, height: number): Int32Array {
+  const distance = new Int32Array(width * height);
+  const far = 1 << 29;
+  for (let i = 0; i < mask.length; i++) distance[i] = mask[i] ? far : 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (!mask[i]) continue;
+      let d = distance[i];
+      if (distance[i - 1] + ORTHOGONAL < d) d = distance[i - 1] + ORTHOGONAL;
+      if (distance[i - width] + ORTHOGONAL < d) d = distance[i - width] + ORTHOGONAL;
+      if (distance[i - width - 1] + DIAGONAL < d) d = distance[i - width - 1] + DIAGONAL;
+      if (distance[i - width + 1] + DIAGONAL < d) d = distance[i - width + 1] + DIAGONAL;
+      distance[i] = d;
+    }
+  }
+  for (let y = height - 2; y >= 1; y--) {
+    for (let x = width - 2; x >= 1; x--) {
+      const i = y * width + x;
+      if (!mask[i]) continue;
+      let d = distance[i];
+      if (distance[i + 1] + ORTHOGONAL < d) d = distance[i + 1] + ORTHOGONAL;
+      if (distance[i + width] + ORTHOGONAL < d) d = distance[i + width] + ORTHOGONAL;
+      if (distance[i + width + 1] + DIAGONAL < d) d = distance[i + width + 1] + DIAGONAL;
+      if (distance[i + width - 1] + DIAGONAL < d) d = distance[i + width - 1] + DIAGONAL;
+      distance[i] = d;
+    }
+  }
+  return distance;
+}
+
+// Mask pixels ordered from the highest distance down (counting sort)
+function sortByDistance(mask: Uint8Array, distance: Int32Array): Int32Array {
+  let maxDistance = 0;
+  for (let i = 0; i < mask.length; i++) if (distance[i] > maxDistance) maxDistance = distance[i];
+  const counts = new Int32Array(maxDistance + 2);
+  let total = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) {
+      counts[maxDistance - distance[i] + 1]++;
+      total++;
+    }
+  }
+  for (let d = 1; d < counts.length; d++) counts[d] += counts[d - 1];
+  const order = new Int32Array(total);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) order[counts[maxDistance - distance[i]]++] = i;
+  }
+  return order;
+}
+
+/**
+ * Peaks of the distance transform that survive the persistence test,
+ * found by adding pixels from the top down and merging basins with a
+ * union-find: when two basins meet, the one with the lower peak dies, and
+ * its persistence is the height of its peak above the meeting level.
+ */
+function persistentPeaks(
+  mask: Uint8Array,
+  distance: Int32Array,
+  width: number,
+  height: number,
+  options: DetectorOptions
+): number[] {
+  const order = sortByDistance(mask, distance);
+  const parent = new Int32Array(width * height).fill(-1);
+  const peak = new Int32Array(width * height);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const offsets = neighbourOffsets(width);
+  const seeds: number[] = [];
+  const minDepth = options.splitMinDepth * ORTHOGONAL;
+
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k];
+    parent[i] = i;
+    peak[i] = i;
+    let root = i;
+    for (let o = 0; o < 8; o++) {
+      const n = i + offsets[o];
+      if (parent[n] < 0 || parent[n] === root) continue;
+      const other = find(n);
+      if (other === root) continue;
+      const rootIsHigher = distance[peak[root]] >= distance[peak[other]];
+      const high = rootIsHigher ? root : other, low = rootIsHigher ? other : root;
+      const top = distance[peak[low]];
+      if (top - distance[i] >= Math.max(minDepth, options.splitDepthRatio * top)) seeds.push(peak[low]);
+      parent[low] = high;
+      root = high;
+    }
+  }
+
+  // Whatever remains after everything merged holds the highest peak
+  if (order.length) seeds.push(peak[find(order[0])]);
+  return seeds;
+}
+
+/**
+ * Flood the mask from the seeds, always growing into the unlabeled pixel
+ * with the highest distance next, so basins meet along distance valleys.
+ * Returns 1-based seed labels per pixel (0 outside the mask).
+ */
+function watershed(
+  mask: Uint8Array,
+  distance: Int32Array,
+  width: number,
+  seeds: number[]
+): Int32Array {
+  const labels = new Int32Array(mask.length);
+  let maxDistance = 0;
+  for (let i = 0; i < mask.length; i++) if (distance[i] > maxDistance) maxDistance = distance[i];
+
+  // Bucket queue keyed by distance; pixels never re-enter a higher bucket
+  const buckets: number[][] = Array.from({ length: maxDistance + 1 }, () => []);
+  seeds.forEach((seed, s) => {
+    labels[seed] = s + 1;
+    buckets[distance[seed]].push(seed);
+  });
+
+  const offsets = neighbourOffsets(width);
+  for (let level = maxDistance; level >= 0; level--) {
+    const bucket = buckets[level];
+    while (bucket.length) {
+      const i = bucket.pop()!;
+      for (const offset of offsets) {
+        const n = i + offset;
+        if (!mask[n] || labels[n]) continue;
+        labels[n] = labels[i];
+        buckets[Math.min(level, distance[n])].push(n);
+      }
+    }
+  }
+  return labels;
+}
@@ -0,0 +1,401 @@
+import type { PixelBuffer } from "./detection-core.js";
+import type { DetectorOptions, ThresholdMode } from "./detector-options.js";
+
+export type Polarity = "dark-on-light" | "light-on-dark";
+
+/** How the image was split into shape and background pixels */
+export interface BinarizationInfo {
+  mode: ThresholdMode;
+  /** "color" mode segments by color distance and has no polarity */
+  polarity: Polarity | null;
+  /** Gray level used by the global modes ("mean", "otsu") */
+  threshold?: number;
+}
+
+export interface BinarizationResult {
+  /** 1 for shape pixels, 0 for background */
+  binary: Uint8Array;
+  info: BinarizationInfo;
+}
+
+/**
+ * Split pixels into shapes (1) and background (0). Every mode except
+ * "color" works on the grayscale image and treats whichever side of the
+ * threshold covers fewer pixels as the shapes.
+ *
+ * With a `mask` (see `regionMask`), pixels outside it are always
+ * background, and the gray-level threshold, polarity and color clusters
+ * are taken from the pixels inside it only, so an excluded header cannot
+ * skew them.
+ */
+export function binarize(
+  image: PixelBuffer,
+  gray: Uint8ClampedArray,
+  options: DetectorOptions,
+  mask: Uint8Array | null = null
+): BinarizationResult {
+  const masked = mask ? gray.filter((_, i) => mask[i] === 1) : gray;
+  const sample = masked.length > 0 ? masked : gray;
+
+  const result = ((): BinarizationResult => {
+    switch (options.thresholdMode) {
+      case "mean":
+        return globalThreshold(gray, meanOf(sample), "mean", sample);
+      case "otsu":
+        return globalThreshold(gray, otsuThreshold(sample), "otsu", sample);
+      case "sauvola":
+      case "niblack":
+        return localThreshold(image.width, image.height, gray, options, sample);
+      case "color":
+        return colorSegmentation(image, options, mask);
+    }
+  })();
+
+  if (mask) {
+    for (let i = 0; i < mask.length; i++) result.binary[i] &= mask[i];
+  }
+  return result;
+}
+
+function meanOf(gray: Uint8ClampedArray): number {
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) sum += gray[i];
+  return sum / gray.length;
+}
+
+// Pixels strictly darker than the threshold are "dark", the rest "light"
+function detectPolarity(gray: Uint8ClampedArray, threshold: number): Polarity {
+  let darkPixels = 0, lightPixels = 0;
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] < threshold) darkPixels++;
+    else lightPixels++;
+  }
+  return lightPixels < darkPixels ? "light-on-dark" : "dark-on-light";
+}
+
+function globalThreshold(
+  gray: Uint8ClampedArray,
+  threshold: number,
+  mode: ThresholdMode,
+  sample: Uint8ClampedArray = gray
+): BinarizationResult {
+  const polarity = detectPolarity(sample, threshold);
+  const binary = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    if (polarity === "light-on-dark") binary[i] = gray[i] > threshold ? 1 : 0;
+    else binary[i] = gray[i] < threshold ? 1 : 0;
+  }
+  return { binary, info: { mode, polarity, threshold } };
+}
+
+// Otsu's method: the gray level that maximizes between-class variance
+export function otsuThreshold(gray: Uint8ClampedArray): number {
+  const histogram = new Float64Array(256);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  let total = 0;
+  for (let t = 0; t < 256; t++) total += t * histogram[t];
+
+  let weightBelow = 0, sumBelow = 0;
+  let best = 0, bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = gray.length - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (total - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  // Levels 0..best form the lower class; the cut sits just above them
+  return best + 0.5;
+}
+
+/**
+ * Windowed threshold from the local mean m and standard deviation s, via
+ * summed-area tables so the cost does not depend on the window size:
+ *   Niblack  T = m + k·s
+ *   Sauvola  T = m·(1 + k·(s/R − 1)), R = 128
+ * The image is inverted first when shapes are lighter than the background,
+ * so shapes are always the pixels below T.
+ *
+ * Windows flatter than `adaptiveMinContrast` (the inside of a large shape,
+ * or a smooth background gradient) have no local edge to go by. Each
+ * connected flat area instead takes the majority label of the decided
+ * pixels around it, so it joins whichever side of the nearby edges it is on.
+ */
+function localThreshold(
+  width: number,
+  height: number,
+  gray: Uint8ClampedArray,
+  options: DetectorOptions,
+  sample: Uint8ClampedArray = gray
+): BinarizationResult {
+  const polarity = detectPolarity(sample, otsuThreshold(sample));
+  const invert = polarity === "light-on-dark";
+  const values = invert ? gray.map((v) => 255 - v) : gray;
+
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0, rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const v = values[y * width + x];
+      rowSum += v;
+      rowSquares += v * v;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares;
+    }
+  }
+
+  const half = Math.floor(options.adaptiveWindowSize / 2);
+  const sauvola = options.thresholdMode === "sauvola";
+  const k = sauvola ? options.sauvolaK : options.niblackK;
+  const minVariance = options.adaptiveMinContrast ** 2;
+  const binary = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+    const top = y0 * stride, bottom = y1 * stride;
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+      const n = (x1 - x0) * (y1 - y0);
+      const mean = (sums[bottom + x1] - sums[top + x1] - sums[bottom + x0] + sums[top + x0]) / n;
+      const meanSquare = (squares[bottom + x1] - squares[top + x1] - squares[bottom + x0] + squares[top + x0]) / n;
+      const variance = Math.max(0, meanSquare - mean * mean);
+      if (variance < minVariance) {
+        binary[y * width + x] = UNDECIDED;
+        continue;
+      }
+      const deviation = Math.sqrt(variance);
+      const threshold = sauvola ? mean * (1 + k * (deviation / 128 - 1)) : mean + k * deviation;
+      binary[y * width + x] = values[y * width + x] < threshold ? 1 : 0;
+    }
+  }
+
+  fillFlatAreas(binary, width);
+
+  return { binary, info: { mode: options.thresholdMode, polarity } };
+}
+
+const UNDECIDED = 2;
+
+/**
+ * Give each 4-connected area of UNDECIDED pixels the majority label of its
+ * decided neighbours. Areas are built from the runs of undecided pixels in
+ * each row, joined (union-find) to the runs they overlap in the row above,
+ * so the image is swept in raster order rather than flooded.
+ */
+function fillFlatAreas(binary: Uint8Array, width: number): void {
+  const parent: number[] = [];
+  const votes: number[] = [];
+  const find = (run: number): number => {
+    while (parent[run] !== run) {
+      parent[run] = parent[parent[run]];
+      run = parent[run];
+    }
+    return run;
+  };
+  const vote = (i: number) => (binary[i] === UNDECIDED ? 0 : binary[i] ? 1 : -1);
+  // Calls `visit(row, start, end)` for each run, in the same order every time
+  const forEachRun = (visit: (row: number, start: number, end: number) => void) => {
+    for (let row = 0; row < binary.length; row += width) {
+      for (let x = 0; x < width; x++) {
+        if (binary[row + x] !== UNDECIDED) continue;
+        const start = x;
+        while (x + 1 < width && binary[row + x + 1] === UNDECIDED) x++;
+        visit(row, start, x);
+      }
+    }
+  };
+
+  // [start, end, run] triples of the row above and of this row
+  let above: number[] = [], current: number[] = [], currentRow = 0, first = 0;
+  forEachRun((row, start, end) => {
+    if (row !== currentRow) {
+      [above, current] = row === currentRow + width ? [current, []] : [[], []];
+      currentRow = row;
+      first = 0;
+    }
+    const run = parent.length;
+    parent.push(run);
+    let total = (start > 0 ? vote(row + start - 1) : 0) + (end < width - 1 ? vote(row + end + 1) : 0);
+    for (let i = row + start; i <= row + end; i++) {
+      if (row > 0) total += vote(i - width);
+      if (row < binary.length - width) total += vote(i + width);
+    }
+    votes.push(total);
+    // Runs are in order along the row, so those ending before this one are done with
+    while (first < above.length && above[first + 1] < start) first += 3;
+    for (let a = first; a < above.length && above[a] <= end; a += 3) {
+      const root = find(above[a + 2]), own = find(run);
+      if (root !== own) parent[own] = root;
+    }
+    current.push(start, end, run);
+  });
+
+  for (let run = 0; run < parent.length; run++) {
+    const root = find(run);
+    if (root !== run) votes[root] += votes[run];
+  }
+  let run = 0;
+  forEachRun((row, start, end) => {
+    const label = votes[find(run++)] > 0 ? 1 : 0; // no decided neighbours at all means a blank image
+    binary.fill(label, row + start, row + end + 1);
+  });
+}
+
+// sRGB channel value (0-255) to linear light
+const LINEAR = Float64Array.from({ length: 256 }, (_, c) => {
+  c /= 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+function labCurve(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+// sRGB (0-255) to CIE L*a*b* under D65, written to `out` at `offset`
+function toLab(r: number, g: number, b: number, out: Float32Array, offset: number): void {
+  const lr = LINEAR[r], lg = LINEAR[g], lb = LINEAR[b];
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const fx = labCurve(x), fy = labCurve(y), fz = labCurve(z);
+  out[offset] = 116 * fy - 16;
+  out[offset + 1] = 500 * (fx - fy);
+  out[offset + 2] = 200 * (fy - fz);
+}
+
+/**
+ * k-means in Lab space (farthest-point seeding, so results are
+ * deterministic). The cluster holding most border pixels is the
+ * background, together with any cluster whose center lies within
+ * `colorDistanceThreshold` (ΔE) of it, which absorbs mild gradients and
+ * lighting falloff. Everything else is a shape.
+ *
+ * With a `mask`, only the pixels inside it are clustered, and the
+ * background votes come from the edge of the masked area instead.
+ */
+function colorSegmentation(image: PixelBuffer, options: DetectorOptions, mask: Uint8Array | null): BinarizationResult {
+  const { width, height, data } = image;
+  const count = width * height;
+  const used = (i: number) => !mask || mask[i] === 1;
+  const first = mask ? Math.max(0, mask.indexOf(1)) : 0;
+  // k-means runs over the distinct colors, weighted by how many pixels have
+  // them, so each is converted to Lab and measured against the centers once
+  // per pass. `color` maps every pixel to its entry in `lab` and `weight`.
+  const color = new Int32Array(count);
+  const colorOf = new Int32Array(1 << 24); // 1 + entry per 24-bit RGB value, 0 if not seen yet
+  let table = new Float32Array(3 * 256);
+  let colors = 0;
+  for (let i = 0; i < count; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    const rgb = (r << 16) | (g << 8) | b;
+    if (!colorOf[rgb]) {
+      if (colors * 3 === table.length) {
+        const grown = new Float32Array(table.length * 2);
+        grown.set(table);
+        table = grown;
+      }
+      toLab(r, g, b, table, colors * 3);
+      colorOf[rgb] = ++colors;
+    }
+    color[i] = colorOf[rgb] - 1;
+  }
+  const lab = table;
+  const weight = new Float64Array(colors);
+  for (let i = 0; i < count; i++) if (used(i)) weight[color[i]]++;
+
+  const labOf = (i: number): number[] => [lab[color[i] * 3], lab[color[i] * 3 + 1], lab[color[i] * 3 + 2]];
+  const distanceSq = (c: number, center: number[]) =>
+    (lab[c * 3] - center[0]) ** 2 + (lab[c * 3 + 1] - center[1]) ** 2 + (lab[c * 3 + 2] - center[2]) ** 2;
+
+  // Seed from a subsample to keep this linear in the image size
+  const step = Math.max(1, Math.floor(count / 4096));
+  const centers: number[][] = [labOf(first)];
+  const nearest = new Float64Array(Math.ceil(count / step)).fill(Infinity);
+  while (centers.length < options.colorClusters) {
+    let far = -1, farDist = 0;
+    for (let i = 0, j = 0; i < count; i += step, j++) {
+      if (!used(i)) continue;
+      nearest[j] = Math.min(nearest[j], distanceSq(color[i], centers[centers.length - 1]));
+      if (nearest[j] > farDist) {
+        farDist = nearest[j];
+        far = i;
+      }
+    }
+    if (far < 0) break; // fewer distinct colors than clusters
+    centers.push(labOf(far));
+  }
+
+  // Cluster of each color; every pixel starts in cluster 0
+  const clusterOf = new Uint8Array(colors);
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const totals = centers.map(() => [0, 0, 0, 0]);
+    let moved = 0;
+    for (let c = 0; c < colors; c++) {
+      if (!weight[c]) continue;
+      let best = 0, bestDist = Infinity;
+      for (let k = 0; k < centers.length; k++) {
+        const d = distanceSq(c, centers[k]);
+        if (d < bestDist) {
+          bestDist = d;
+          best = k;
+        }
+      }
+      if (clusterOf[c] !== best) moved += weight[c];
+      clusterOf[c] = best;
+      const t = totals[best];
+      t[0] += weight[c] * lab[c * 3]; t[1] += weight[c] * lab[c * 3 + 1]; t[2] += weight[c] * lab[c * 3 + 2];
+      t[3] += weight[c];
+    }
+    totals.forEach((t, c) => {
+      if (t[3] > 0) centers[c] = [t[0] / t[3], t[1] / t[3], t[2] / t[3]];
+    });
+    if (iteration > 0 && moved === 0) break;
+  }
+  const assignment = (i: number) => (used(i) ? clusterOf[color[i]] : 0);
+
+  const borderVotes = new Array(centers.length).fill(0);
+  if (mask) {
+    // Pixels inside the mask on the image edge or next to a masked-out pixel
+    const outside = (x: number, y: number) => x < 0 || y < 0 || x >= width || y >= height || !mask[y * width + x];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (!mask[i]) continue;
+        if (outside(x - 1, y) || outside(x + 1, y) || outside(x, y - 1) || outside(x, y + 1)) {
+          borderVotes[assignment(i)]++;
+        }
+      }
+    }
+  } else {
+    for (let x = 0; x < width; x++) {
+      borderVotes[assignment(x)]++;
+      borderVotes[assignment((height - 1) * width + x)]++;
+    }
+    for (let y = 0; y < height; y++) {
+      borderVotes[assignment(y * width)]++;
+      borderVotes[assignment(y * width + width - 1)]++;
+    }
+  }
+  const background = borderVotes.indexOf(Math.max(...borderVotes));
+  const maxDistSq = options.colorDistanceThreshold ** 2;
+  const isBackground = centers.map((center, c) =>
+    c === background ||
+    (center[0] - centers[background][0]) ** 2 +
+      (center[1] - centers[background][1]) ** 2 +
+      (center[2] - centers[background][2]) ** 2 <= maxDistSq
+  );
+
+  const binary = new Uint8Array(count);
+  for (let i = 0; i < count; i++) binary[i] = isBackground[assignment(i)] ? 0 : 1;
+  return { binary, info: { mode: "color", polarity: null } };
+}
@@ -1,4 +1,6 @@
 
+import type { ExportFile } from "./result-export.js";
+
 export class SelectionManager {
   private selectedImages: Set<string> = new Set();
 
@@ -72,13 +74,19 @@ export class ModalManager {
       document.body.removeChild(modalOverlay);
     };
 
+    const baselineContainer = document.createElement("div");
     const resultsContainer = document.createElement("div");
 
-    import("./evaluation.js").then((evaluationModule) => {
-      evaluationModule.displayEvaluationResults(results, resultsContainer);
-    });
+    Promise.all([import("./evaluation.js"), import("./baseline-panel.js")]).then(
+      ([evaluationModule, baselineModule]) => {
+        const render = () => evaluationModule.displayEvaluationResults(results, resultsContainer);
+        new baselineModule.BaselinePanel(baselineContainer, results, render);
+        render();
+      }
+    );
 
     modalContent.appendChild(closeButton);
+    modalContent.appendChild(baselineContainer);
     modalContent.appendChild(resultsContainer);
     modalOverlay.appendChild(modalContent);
     document.body.appendChild(modalOverlay);
@@ -98,3 +106,43 @@ export class ModalManager {
     document.addEventListener("keydown", handleEscape);
   }
 }
+
+// Save each file through a temporary object URL
+export function downloadFiles(files: ExportFile[]): void {
+  for (const file of files) {
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
+
+/**
+ * Files dropped on the page, including everything inside dropped folders
+ * (read through the entries API, which only works during the drop event).
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  const visit = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns the listing in chunks; an empty chunk ends it
+      for (;;) {
+        const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (chunk.length === 0) break;
+        for (const child of chunk) await visit(child);
+      }
+    }
+  };
+  for (const entry of entries) await visit(entry);
+  return files;
+}
@@ -0,0 +1,154 @@
+import type { DetectionProgress, DetectionResult } from "./detection-core.js";
+import type { DetectorOptions } from "./detector-options.js";
+
+export interface DetectionControl {
+  /** Aborting rejects the pending detection with the signal's reason */
+  signal?: AbortSignal;
+  onProgress?: (progress: DetectionProgress) => void;
+}
+
+export interface WorkerRequest {
+  id: number;
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  options: DetectorOptions;
+}
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: DetectionProgress }
+  | { type: "result"; id: number; result: DetectionResult }
+  | { type: "error"; id: number; message: string };
+
+interface PendingDetection {
+  request: WorkerRequest;
+  control: DetectionControl;
+  resolve: (result: DetectionResult) => void;
+  reject: (reason: unknown) => void;
+  onAbort: () => void;
+}
+
+/**
+ * Runs `detectShapesInBuffer` in a Web Worker. The pixel buffer is
+ * transferred rather than copied, so the `ImageData` passed in is detached
+ * afterwards. Detections run one at a time in call order. The core is
+ * synchronous and cannot be interrupted, so aborting the running detection
+ * terminates the worker and the next one starts in a fresh worker; aborting
+ * a queued detection just drops it.
+ */
+export class WorkerShapeDetector {
+  private worker: Worker | null = null;
+  private active: PendingDetection | null = null;
+  private queue: PendingDetection[] = [];
+  private nextId = 1;
+
+  detectShapes(
+    imageData: ImageData,
+    options: DetectorOptions,
+    control: DetectionControl = {}
+  ): Promise<DetectionResult> {
+    const { signal } = control;
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    return new Promise((resolve, reject) => {
+      const request: WorkerRequest = {
+        id: this.nextId++,
+        width: imageData.width,
+        height: imageData.height,
+        buffer: imageData.data.buffer as ArrayBuffer,
+        options,
+      };
+      const detection: PendingDetection = {
+        request,
+        control,
+        resolve,
+        reject,
+        onAbort: () => this.abort(detection),
+      };
+      signal?.addEventListener("abort", detection.onAbort, { once: true });
+      this.queue.push(detection);
+      this.startNext();
+    });
+  }
+
+  /** Stop the worker and reject every pending detection */
+  dispose(): void {
+    this.stopWorker();
+    const pending = this.active ? [this.active, ...this.queue] : this.queue;
+    this.active = null;
+    this.queue = [];
+    for (const detection of pending) {
+      this.finish(detection);
+      detection.reject(new Error("Detector disposed"));
+    }
+  }
+
+  private startNext(): void {
+    if (this.active || this.queue.length === 0) return;
+    this.active = this.queue.shift()!;
+    this.getWorker().postMessage(this.active.request, [this.active.request.buffer]);
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("./detection-worker.ts", import.meta.url), { type: "module" });
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.stopWorker();
+        if (!this.active) return;
+        this.completeActive((detection) =>
+          detection.reject(new Error(`Detection worker failed: ${event.message}`))
+        );
+      };
+    }
+    return this.worker;
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handleMessage(message: WorkerResponse): void {
+    if (!this.active || message.id !== this.active.request.id) return;
+    if (message.type === "progress") {
+      this.active.control.onProgress?.(message.progress);
+    } else if (message.type === "result") {
+      this.completeActive((detection) => detection.resolve(message.result));
+    } else {
+      this.completeActive((detection) => detection.reject(new Error(message.message)));
+    }
+  }
+
+  private abort(detection: PendingDetection): void {
+    const reason = abortReason(detection.control.signal!);
+    if (detection === this.active) {
+      this.stopWorker();
+      this.completeActive((active) => active.reject(reason));
+      return;
+    }
+    const index = this.queue.indexOf(detection);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      this.finish(detection);
+      detection.reject(reason);
+    }
+  }
+
+  private completeActive(settle: (detection: PendingDetection) => void): void {
+    const detection = this.active!;
+    this.active = null;
+    this.finish(detection);
+    settle(detection);
+    this.startNext();
+  }
+
+  private finish(detection: PendingDetection): void {
+    detection.control.signal?.removeEventListener("abort", detection.onAbort);
+  }
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("Detection aborted", "AbortError");
+}